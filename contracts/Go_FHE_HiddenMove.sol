@@ -1,5 +1,6 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract GoFHEHiddenMoveFHE is SepoliaConfig {
@@ -17,6 +18,7 @@ contract GoFHEHiddenMoveFHE is SepoliaConfig {
         uint256 batchId;
         bytes32 stateHash;
         bool processed;
+        uint256[] indices; // empty when the whole batch is decrypted
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
@@ -27,6 +29,9 @@ contract GoFHEHiddenMoveFHE is SepoliaConfig {
         euint32 x;
         euint32 y;
         euint32 revealStep;
+        address player;
+        bytes32 gameId;
+        uint256 stoneIndex; // position in hiddenStones[gameId]
     }
     mapping(uint256 => EncryptedMove[]) public encryptedMoves; // batchId -> moves
 
@@ -36,6 +41,96 @@ contract GoFHEHiddenMoveFHE is SepoliaConfig {
         uint32 revealStep;
     }
     mapping(uint256 => DecryptedMove[]) public decryptedMoves; // batchId -> moves
+    // Moves decrypted one at a time or in subsets: batchId -> index -> move
+    mapping(uint256 => mapping(uint256 => DecryptedMove)) public decryptedMoveAt;
+    mapping(uint256 => mapping(uint256 => bool)) public isMoveDecrypted;
+
+    // Every hidden stone of a game, so visible moves can be checked against them homomorphically.
+    struct HiddenStone {
+        euint32 x;
+        euint32 y;
+        euint32 revealStep;
+        address player;
+        bool active;
+        uint256 batchId;
+        uint256 batchIndex; // position in encryptedMoves[batchId]
+        uint32 lastRevealMove; // the clamped reveal step is at most this
+    }
+    mapping(bytes32 => HiddenStone[]) public hiddenStones; // gameId -> stones
+    // A stone can only mature once the game reaches the earliest reveal step the policy allowed it, so it
+    // waits in a bucket for that move count and is then checked on every move until it is revealed or
+    // its latest step has passed.
+    mapping(bytes32 => mapping(uint32 => uint256[])) private stonesOpeningAt; // gameId -> move count -> stones
+    mapping(bytes32 => uint256[]) private maturingStones; // gameId -> stones inside their reveal window
+
+    // The outcome of a visible stone, recorded with the move it was checked for.
+    struct PlacementCheck {
+        bytes32 gameId;
+        address player;
+        uint32 moveIndex; // moves played before this one
+        uint32 x;
+        uint32 y;
+        ebool blocked;
+    }
+    PlacementCheck[] public placementChecks;
+
+    // Hidden-move rules a game is opened with. Delays count moves after the hidden move itself.
+    struct HiddenMovePolicy {
+        uint32 interval; // hidden moves are allowed on move numbers divisible by this
+        uint32 maxPerPlayer;
+        uint32 maxUnrevealed; // per player, at any one time
+        uint32 minRevealDelay;
+        uint32 maxRevealDelay;
+    }
+
+    // Seats and the move counter hidden stones mature against; only the player to move advances it.
+    struct GameInfo {
+        address black;
+        address white;
+        address toMove;
+        uint32 moveCount;
+        bool registered;
+        bool whiteMovesFirst;
+        uint32 boardSize;
+        HiddenMovePolicy policy;
+    }
+    mapping(bytes32 => GameInfo) public games;
+
+    // Every move of a game in order, so clients can check the game's move log against the turns the
+    // contract counted, and restore a move whose log entry was never written.
+    enum MoveKind {
+        Stone,
+        Hidden,
+        Pass
+    }
+    struct MoveRecord {
+        MoveKind kind;
+        address player;
+        uint256 ref; // checkId for stones, stoneIndex for hidden moves
+    }
+    mapping(bytes32 => MoveRecord[]) public moveRecords; // gameId -> moves
+    mapping(bytes32 => mapping(address => uint32)) public hiddenMovesPlayed; // gameId -> player -> count
+    mapping(bytes32 => mapping(address => uint32)) public unrevealedStones; // gameId -> player -> count
+
+    // A player's request to take back their last move, or it and the opponent's reply, made at moveCount.
+    struct TakebackRequest {
+        address requester;
+        uint32 moveCount;
+        uint32 count;
+    }
+    mapping(bytes32 => TakebackRequest) public takebackRequests; // gameId -> latest request
+
+    // Coordinates decrypt to this for stones that have not reached their reveal step.
+    uint32 public constant NOT_MATURED = type(uint32).max;
+    uint32 public constant MAX_BOARD_SIZE = 25;
+
+    struct RevealContext {
+        bytes32 gameId;
+        uint32 moveCount; // moves played when the stones were checked
+        uint256[] stoneIndices;
+        bool processed;
+    }
+    mapping(uint256 => RevealContext) private revealContexts;
 
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
     event ProviderAdded(address indexed provider);
@@ -45,9 +140,50 @@ contract GoFHEHiddenMoveFHE is SepoliaConfig {
     event CooldownSecondsSet(uint256 oldCooldown, uint256 newCooldown);
     event BatchOpened(uint256 batchId);
     event BatchClosed(uint256 batchId);
-    event HiddenMoveSubmitted(address indexed provider, uint256 batchId, bytes32 xCt, bytes32 yCt, bytes32 revealStepCt);
+    event HiddenMoveSubmitted(
+        address indexed player,
+        bytes32 indexed gameId,
+        uint256 stoneIndex,
+        uint256 batchId,
+        uint256 index,
+        bytes32 xCt,
+        bytes32 yCt,
+        bytes32 revealStepCt
+    );
+    event GameOpened(
+        bytes32 indexed gameId,
+        address indexed opener,
+        bytes32 label,
+        bool openerIsBlack,
+        HiddenMovePolicy policy
+    );
+    event GameRegistered(bytes32 indexed gameId, address black, address white, address firstToMove);
+    event MoveAdvanced(bytes32 indexed gameId, uint32 moveCount);
+    event TakebackRequested(bytes32 indexed gameId, address indexed requester, uint32 moveCount, uint32 count);
+    event TakebackAccepted(bytes32 indexed gameId, uint32 moveCount);
+    event RevealRequested(uint256 indexed requestId, bytes32 indexed gameId, uint32 moveCount);
+    // moveCount is the number of moves played when the stone became public.
+    event HiddenStoneRevealed(bytes32 indexed gameId, uint256 stoneIndex, uint32 x, uint32 y, uint32 moveCount);
+    event PlacementChecked(
+        bytes32 indexed gameId,
+        address indexed player,
+        uint256 checkId,
+        uint32 moveIndex,
+        uint32 x,
+        uint32 y,
+        bytes32 blockedCt
+    );
     event DecryptionRequested(uint256 indexed requestId, uint256 batchId);
     event DecryptionCompleted(uint256 indexed requestId, uint256 batchId, DecryptedMove[] moves);
+    event MoveDecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, uint256[] indices);
+    event MoveDecrypted(
+        uint256 indexed requestId,
+        uint256 indexed batchId,
+        uint256 index,
+        uint32 x,
+        uint32 y,
+        uint32 revealStep
+    );
 
     error NotOwner();
     error NotProvider();
@@ -60,6 +196,22 @@ contract GoFHEHiddenMoveFHE is SepoliaConfig {
     error StateMismatch();
     error InvalidProof();
     error NotInitialized();
+    error NotMoveOwner();
+    error InvalidMoveIndex();
+    error InvalidStone();
+    error GameAlreadyRegistered();
+    error GameNotRegistered();
+    error NotAPlayer();
+    error NotYourTurn();
+    error UnknownRequest();
+    error InvalidPolicy();
+    error InvalidBoardSize();
+    error InvalidTakeback();
+    error NoTakeback();
+    error InvalidOpponent();
+    error HiddenMoveNotDue();
+    error HiddenMoveQuotaReached();
+    error TooManyUnrevealed();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -76,6 +228,13 @@ contract GoFHEHiddenMoveFHE is SepoliaConfig {
         _;
     }
 
+    modifier onlyPlayer(bytes32 gameId) {
+        GameInfo storage game = games[gameId];
+        if (!game.registered) revert GameNotRegistered();
+        if (msg.sender != game.black && msg.sender != game.white) revert NotAPlayer();
+        _;
+    }
+
     modifier respectCooldown(address user, mapping(address => uint256) storage lastTime) {
         if (block.timestamp < lastTime[user] + cooldownSeconds) {
             revert CooldownActive();
@@ -141,27 +300,307 @@ contract GoFHEHiddenMoveFHE is SepoliaConfig {
         emit BatchClosed(currentBatchId);
     }
 
-    function submitHiddenMove(euint32 x, euint32 y, euint32 revealStep)
+    // Players submit their own hidden moves as relayer-encrypted inputs; the proof binds the
+    // ciphertexts to this contract and the sender, who keeps decrypt rights over them.
+    function submitHiddenMove(
+        bytes32 gameId,
+        externalEuint32 xInput,
+        externalEuint32 yInput,
+        externalEuint32 revealStepInput,
+        bytes calldata inputProof
+    )
         external
-        onlyProvider
         whenNotPaused
+        onlyPlayer(gameId)
         respectCooldown(msg.sender, lastSubmissionTime)
     {
         if (!batchOpen) revert BatchNotOpen();
+        uint32 moveNumber = _checkHiddenMovePolicy(gameId);
+        HiddenMovePolicy storage policy = games[gameId].policy;
+        euint32 x = FHE.fromExternal(xInput, inputProof);
+        euint32 y = FHE.fromExternal(yInput, inputProof);
+        // The reveal step stays encrypted, so it cannot be rejected; it is clamped into the allowed window.
+        euint32 revealStep = FHE.min(
+            FHE.max(FHE.fromExternal(revealStepInput, inputProof), moveNumber + policy.minRevealDelay),
+            moveNumber + policy.maxRevealDelay
+        );
+        (x, y, revealStep) = _keepOnBoard(games[gameId].boardSize, x, y, revealStep, moveNumber + policy.minRevealDelay);
         _initIfNeeded(x);
         _initIfNeeded(y);
         _initIfNeeded(revealStep);
 
-        encryptedMoves[currentBatchId].push(EncryptedMove(x, y, revealStep));
+        _allowStored(x);
+        _allowStored(y);
+        _allowStored(revealStep);
+
+        uint256 stoneIndex = hiddenStones[gameId].length;
+        encryptedMoves[currentBatchId].push(EncryptedMove(x, y, revealStep, msg.sender, gameId, stoneIndex));
+        hiddenStones[gameId].push(
+            HiddenStone(
+                x,
+                y,
+                revealStep,
+                msg.sender,
+                true,
+                currentBatchId,
+                encryptedMoves[currentBatchId].length - 1,
+                moveNumber + policy.maxRevealDelay
+            )
+        );
+        stonesOpeningAt[gameId][moveNumber + policy.minRevealDelay].push(stoneIndex);
+        hiddenMovesPlayed[gameId][msg.sender]++;
+        unrevealedStones[gameId][msg.sender]++;
         lastSubmissionTime[msg.sender] = block.timestamp;
 
         emit HiddenMoveSubmitted(
             msg.sender,
+            gameId,
+            stoneIndex,
             currentBatchId,
+            encryptedMoves[currentBatchId].length - 1,
             FHE.toBytes32(x),
             FHE.toBytes32(y),
             FHE.toBytes32(revealStep)
         );
+        // The hidden stone is the player's move.
+        _advance(gameId, MoveKind.Hidden, stoneIndex);
+    }
+
+    // A stone off the board could never block a visible stone, making the hidden move a free pass, and one
+    // at NOT_MATURED could never be revealed. Such a stone is moved to (boardSize, boardSize) instead and
+    // revealed as early as the policy allows, where clients reject it like any move off the board.
+    function _keepOnBoard(uint32 boardSize, euint32 x, euint32 y, euint32 revealStep, uint32 earliestReveal)
+        internal
+        returns (euint32, euint32, euint32)
+    {
+        ebool onBoard = FHE.and(FHE.lt(x, boardSize), FHE.lt(y, boardSize));
+        euint32 offBoard = FHE.asEuint32(boardSize);
+        return (
+            FHE.select(onBoard, x, offBoard),
+            FHE.select(onBoard, y, offBoard),
+            FHE.select(onBoard, revealStep, FHE.asEuint32(earliestReveal))
+        );
+    }
+
+    // Returns the number of the move being made, which must be one of the caller's allowed hidden moves.
+    function _checkHiddenMovePolicy(bytes32 gameId) internal view returns (uint32 moveNumber) {
+        GameInfo storage game = games[gameId];
+        if (msg.sender != game.toMove) revert NotYourTurn();
+        moveNumber = game.moveCount + 1;
+        if (moveNumber % game.policy.interval != 0) revert HiddenMoveNotDue();
+        if (hiddenMovesPlayed[gameId][msg.sender] >= game.policy.maxPerPlayer) revert HiddenMoveQuotaReached();
+        if (unrevealedStones[gameId][msg.sender] >= game.policy.maxUnrevealed) revert TooManyUnrevealed();
+    }
+
+    // A visible stone is the player's move: whether (x, y) holds an active hidden stone of another
+    // player is computed without decrypting any stone, and the turn passes in the same call, so a
+    // point can only be probed by playing there. The flag is made publicly decryptable so every client
+    // can verify the outcome.
+    function placeStone(bytes32 gameId, uint32 x, uint32 y)
+        external
+        whenNotPaused
+        onlyPlayer(gameId)
+        returns (uint256 checkId)
+    {
+        GameInfo storage game = games[gameId];
+        if (msg.sender != game.toMove) revert NotYourTurn();
+        // Off-board hidden stones sit at (boardSize, boardSize), so no visible stone may go there.
+        if (x >= game.boardSize || y >= game.boardSize) revert InvalidStone();
+        HiddenStone[] storage stones = hiddenStones[gameId];
+        ebool blocked = FHE.asEbool(false);
+        for (uint i = 0; i < stones.length; i++) {
+            if (!stones[i].active || stones[i].player == msg.sender) continue;
+            blocked = FHE.or(blocked, FHE.and(FHE.eq(stones[i].x, x), FHE.eq(stones[i].y, y)));
+        }
+        FHE.allowThis(blocked);
+        FHE.makePubliclyDecryptable(blocked);
+
+        checkId = placementChecks.length;
+        placementChecks.push(PlacementCheck(gameId, msg.sender, game.moveCount, x, y, blocked));
+        emit PlacementChecked(gameId, msg.sender, checkId, game.moveCount, x, y, FHE.toBytes32(blocked));
+        _advance(gameId, MoveKind.Stone, checkId);
+    }
+
+    function hiddenStoneCount(bytes32 gameId) external view returns (uint256) {
+        return hiddenStones[gameId].length;
+    }
+
+    // The public getter only returns one element at a time.
+    function getDecryptedMoves(uint256 batchId) external view returns (DecryptedMove[] memory) {
+        return decryptedMoves[batchId];
+    }
+
+    // Games are keyed by the player who opens them, so nobody can open a game under another
+    // player's key or take a seat in it.
+    function gameKey(address opener, bytes32 label) public pure returns (bytes32) {
+        return keccak256(abi.encode(opener, label));
+    }
+
+    // Seats both players at once: the opener names their opponent and fixes the board size and the game's
+    // hidden-move policy. Clients only play a game whose seats, turn order, board and policy match their
+    // own game record.
+    function openGame(
+        bytes32 label,
+        address opponent,
+        bool asBlack,
+        bool whiteMovesFirst,
+        uint32 boardSize,
+        HiddenMovePolicy calldata policy
+    ) external whenNotPaused returns (bytes32 gameId) {
+        if (opponent == address(0) || opponent == msg.sender) revert InvalidOpponent();
+        if (boardSize == 0 || boardSize > MAX_BOARD_SIZE) revert InvalidBoardSize();
+        if (policy.interval == 0 || policy.minRevealDelay == 0 || policy.minRevealDelay > policy.maxRevealDelay) {
+            revert InvalidPolicy();
+        }
+        gameId = gameKey(msg.sender, label);
+        if (games[gameId].registered) revert GameAlreadyRegistered();
+        GameInfo storage game = games[gameId];
+        game.registered = true;
+        game.whiteMovesFirst = whiteMovesFirst;
+        game.boardSize = boardSize;
+        game.policy = policy;
+        game.black = asBlack ? msg.sender : opponent;
+        game.white = asBlack ? opponent : msg.sender;
+        game.toMove = whiteMovesFirst ? game.white : game.black;
+        emit GameOpened(gameId, msg.sender, label, asBlack, policy);
+        emit GameRegistered(gameId, game.black, game.white, game.toMove);
+    }
+
+    // Asks to take back the caller's last move (count 1), or it and the opponent's reply (count 2). A
+    // later request replaces this one, and any move played in between makes it stale.
+    function requestTakeback(bytes32 gameId, uint32 count) external whenNotPaused onlyPlayer(gameId) {
+        MoveRecord[] storage records = moveRecords[gameId];
+        if (count == 0 || count > 2 || records.length < count) revert InvalidTakeback();
+        if (records[records.length - count].player != msg.sender) revert InvalidTakeback();
+        takebackRequests[gameId] = TakebackRequest(msg.sender, games[gameId].moveCount, count);
+        emit TakebackRequested(gameId, msg.sender, games[gameId].moveCount, count);
+    }
+
+    // The opponent agrees to the pending request: its moves leave the record and the turn goes back to
+    // the requester, so move n of the game log is record n again once clients drop the same moves.
+    function acceptTakeback(bytes32 gameId, uint32 count) external whenNotPaused onlyPlayer(gameId) {
+        GameInfo storage game = games[gameId];
+        TakebackRequest memory request = takebackRequests[gameId];
+        if (request.requester == address(0) || request.requester == msg.sender) revert NoTakeback();
+        if (request.moveCount != game.moveCount || request.count != count) revert NoTakeback();
+        delete takebackRequests[gameId];
+
+        MoveRecord[] storage records = moveRecords[gameId];
+        for (uint i = 0; i < count; i++) {
+            MoveRecord memory record = records[records.length - 1];
+            records.pop();
+            if (record.kind == MoveKind.Hidden) _withdrawStone(gameId, record.ref);
+            game.toMove = record.player;
+        }
+        game.moveCount -= count;
+        emit TakebackAccepted(gameId, game.moveCount);
+    }
+
+    // A hidden stone taken back never stood: it leaves the placement checks without being revealed and no
+    // longer counts against its player's quotas.
+    function _withdrawStone(bytes32 gameId, uint256 stoneIndex) internal {
+        HiddenStone storage stone = hiddenStones[gameId][stoneIndex];
+        hiddenMovesPlayed[gameId][stone.player]--;
+        if (!stone.active) return;
+        stone.active = false;
+        unrevealedStones[gameId][stone.player]--;
+    }
+
+    function passTurn(bytes32 gameId) external whenNotPaused onlyPlayer(gameId) {
+        if (msg.sender != games[gameId].toMove) revert NotYourTurn();
+        _advance(gameId, MoveKind.Pass, 0);
+    }
+
+    // All of a game's moves in one call.
+    function getMoveRecords(bytes32 gameId) external view returns (MoveRecord[] memory) {
+        return moveRecords[gameId];
+    }
+
+    // Records and counts the caller's move, then compares the new move number under FHE with the
+    // revealStep of every stone that can mature on it. Only matured stones decrypt to real coordinates;
+    // the rest decrypt to NOT_MATURED, so nothing about them leaks.
+    function _advance(bytes32 gameId, MoveKind kind, uint256 ref) internal {
+        GameInfo storage game = games[gameId];
+        moveRecords[gameId].push(MoveRecord(kind, msg.sender, ref));
+        game.moveCount++;
+        game.toMove = msg.sender == game.black ? game.white : game.black;
+        emit MoveAdvanced(gameId, game.moveCount);
+
+        uint256[] memory stoneIndices = _maturingStones(gameId, game.moveCount);
+        if (stoneIndices.length == 0) return;
+
+        HiddenStone[] storage stones = hiddenStones[gameId];
+        bytes32[] memory cts = new bytes32[](stoneIndices.length * 2);
+        euint32 moveNumber = FHE.asEuint32(game.moveCount);
+        euint32 notMatured = FHE.asEuint32(NOT_MATURED);
+        for (uint i = 0; i < stoneIndices.length; i++) {
+            HiddenStone storage stone = stones[stoneIndices[i]];
+            ebool matured = FHE.ge(moveNumber, stone.revealStep);
+            euint32 x = FHE.select(matured, stone.x, notMatured);
+            euint32 y = FHE.select(matured, stone.y, notMatured);
+            FHE.allowThis(x);
+            FHE.allowThis(y);
+            cts[i * 2] = FHE.toBytes32(x);
+            cts[i * 2 + 1] = FHE.toBytes32(y);
+        }
+
+        uint256 requestId = FHE.requestDecryption(cts, this.revealCallback.selector);
+        revealContexts[requestId] = RevealContext({
+            gameId: gameId,
+            moveCount: game.moveCount,
+            stoneIndices: stoneIndices,
+            processed: false
+        });
+        emit RevealRequested(requestId, gameId, game.moveCount);
+    }
+
+    // Moves the stones whose reveal window opens at this move count into the game's maturing set and
+    // drops those already revealed or past their latest reveal step, which were checked on that step.
+    function _maturingStones(bytes32 gameId, uint32 moveCount) internal returns (uint256[] memory) {
+        uint256[] storage maturing = maturingStones[gameId];
+        uint256[] storage opening = stonesOpeningAt[gameId][moveCount];
+        for (uint i = 0; i < opening.length; i++) maturing.push(opening[i]);
+        delete stonesOpeningAt[gameId][moveCount];
+
+        HiddenStone[] storage stones = hiddenStones[gameId];
+        uint n;
+        while (n < maturing.length) {
+            HiddenStone storage stone = stones[maturing[n]];
+            if (stone.active && stone.lastRevealMove >= moveCount) {
+                n++;
+            } else {
+                maturing[n] = maturing[maturing.length - 1];
+                maturing.pop();
+            }
+        }
+        return maturing;
+    }
+
+    function revealCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        RevealContext storage ctx = revealContexts[requestId];
+        if (ctx.processed) revert ReplayDetected();
+        if (ctx.stoneIndices.length == 0) revert UnknownRequest();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        ctx.processed = true;
+
+        for (uint i = 0; i < ctx.stoneIndices.length; i++) {
+            uint32 x = uint32(_wordAt(cleartexts, i * 2));
+            uint32 y = uint32(_wordAt(cleartexts, i * 2 + 1));
+            if (x != NOT_MATURED) _retireStone(ctx.gameId, ctx.stoneIndices[i], x, y, ctx.moveCount);
+        }
+    }
+
+    // A stone whose coordinates the oracle has published is on the public board, so it leaves the
+    // placement checks and the unrevealed count. Decryptions are the only way out: a stone cannot be
+    // taken off the board without its coordinates becoming public.
+    function _retireStone(bytes32 gameId, uint256 stoneIndex, uint32 x, uint32 y, uint32 moveCount) internal {
+        HiddenStone storage stone = hiddenStones[gameId][stoneIndex];
+        // Already revealed on schedule or by an earlier decryption.
+        if (!stone.active) return;
+        stone.active = false;
+        unrevealedStones[gameId][stone.player]--;
+        emit HiddenStoneRevealed(gameId, stoneIndex, x, y, moveCount);
     }
 
     function requestBatchDecryption(uint256 batchId)
@@ -174,42 +613,103 @@ contract GoFHEHiddenMoveFHE is SepoliaConfig {
         EncryptedMove[] storage moves = encryptedMoves[batchId];
         if (moves.length == 0) revert InvalidBatchId(); // Or custom error "BatchEmpty"
 
-        bytes32[] memory cts = new bytes32[](moves.length * 3); // x, y, revealStep for each move
-        for (uint i = 0; i < moves.length; i++) {
-            cts[i * 3] = FHE.toBytes32(moves[i].x);
-            cts[i * 3 + 1] = FHE.toBytes32(moves[i].y);
-            cts[i * 3 + 2] = FHE.toBytes32(moves[i].revealStep);
-        }
-
+        bytes32[] memory cts = _batchCiphertexts(batchId, new uint256[](0));
         bytes32 stateHash = _hashCiphertexts(cts);
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
 
         decryptionContexts[requestId] = DecryptionContext({
             batchId: batchId,
             stateHash: stateHash,
-            processed: false
+            processed: false,
+            indices: new uint256[](0)
         });
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
 
         emit DecryptionRequested(requestId, batchId);
     }
 
+    // Decrypts only the chosen moves of a batch, so hidden stones can be revealed one at a time.
+    // Providers may decrypt any moves; players only their own.
+    function requestMoveDecryption(uint256 batchId, uint256[] calldata indices)
+        external
+        whenNotPaused
+        respectCooldown(msg.sender, lastDecryptionRequestTime)
+        returns (uint256 requestId)
+    {
+        if (batchId == 0 || batchId > currentBatchId) revert InvalidBatchId();
+        if (indices.length == 0) revert InvalidMoveIndex();
+        EncryptedMove[] storage moves = encryptedMoves[batchId];
+        bool provider = isProvider[msg.sender];
+        for (uint i = 0; i < indices.length; i++) {
+            if (indices[i] >= moves.length) revert InvalidMoveIndex();
+            if (!provider && moves[indices[i]].player != msg.sender) revert NotMoveOwner();
+        }
+
+        bytes32[] memory cts = _batchCiphertexts(batchId, indices);
+        bytes32 stateHash = _hashCiphertexts(cts);
+        requestId = FHE.requestDecryption(cts, this.moveCallback.selector);
+
+        decryptionContexts[requestId] = DecryptionContext({
+            batchId: batchId,
+            stateHash: stateHash,
+            processed: false,
+            indices: indices
+        });
+        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+
+        emit MoveDecryptionRequested(requestId, batchId, indices);
+    }
+
     function myCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
-        if (decryptionContexts[requestId].processed) revert ReplayDetected();
-        // Security: Replay protection ensures this callback is processed only once for a given requestId.
+        DecryptionContext memory ctx = _verifyDecryption(requestId, cleartexts, proof);
+        if (ctx.indices.length != 0) revert UnknownRequest();
+
+        // Cleartexts are ABI-encoded: one 32-byte word per decrypted value, 3 per move.
+        uint256 numMoves = cleartexts.length / 96;
+        DecryptedMove[] memory decryptedBatchMoves = new DecryptedMove[](numMoves);
+        for (uint i = 0; i < numMoves; i++) {
+            uint32 x = uint32(_wordAt(cleartexts, i * 3));
+            uint32 y = uint32(_wordAt(cleartexts, i * 3 + 1));
+            uint32 revealStep = uint32(_wordAt(cleartexts, i * 3 + 2));
+            decryptedBatchMoves[i] = DecryptedMove(x, y, revealStep);
+            EncryptedMove storage encrypted = encryptedMoves[ctx.batchId][i];
+            _retireStone(encrypted.gameId, encrypted.stoneIndex, x, y, games[encrypted.gameId].moveCount);
+        }
 
-        DecryptionContext memory ctx = decryptionContexts[requestId];
-        EncryptedMove[] storage moves = encryptedMoves[ctx.batchId];
-        if (moves.length == 0) revert InvalidBatchId(); // Should not happen if requestBatchDecryption was called correctly
+        decryptedMoves[ctx.batchId] = decryptedBatchMoves;
+        emit DecryptionCompleted(requestId, ctx.batchId, decryptedBatchMoves);
+    }
 
-        bytes32[] memory currentCts = new bytes32[](moves.length * 3);
-        for (uint i = 0; i < moves.length; i++) {
-            currentCts[i * 3] = FHE.toBytes32(moves[i].x);
-            currentCts[i * 3 + 1] = FHE.toBytes32(moves[i].y);
-            currentCts[i * 3 + 2] = FHE.toBytes32(moves[i].revealStep);
+    function moveCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext memory ctx = _verifyDecryption(requestId, cleartexts, proof);
+        if (ctx.indices.length == 0) revert UnknownRequest();
+
+        for (uint i = 0; i < ctx.indices.length; i++) {
+            DecryptedMove memory move = DecryptedMove(
+                uint32(_wordAt(cleartexts, i * 3)),
+                uint32(_wordAt(cleartexts, i * 3 + 1)),
+                uint32(_wordAt(cleartexts, i * 3 + 2))
+            );
+            decryptedMoveAt[ctx.batchId][ctx.indices[i]] = move;
+            isMoveDecrypted[ctx.batchId][ctx.indices[i]] = true;
+            emit MoveDecrypted(requestId, ctx.batchId, ctx.indices[i], move.x, move.y, move.revealStep);
+            EncryptedMove storage encrypted = encryptedMoves[ctx.batchId][ctx.indices[i]];
+            _retireStone(encrypted.gameId, encrypted.stoneIndex, move.x, move.y, games[encrypted.gameId].moveCount);
         }
+    }
+
+    // Shared by both decryption callbacks; marks the request processed once everything checks out.
+    function _verifyDecryption(uint256 requestId, bytes memory cleartexts, bytes memory proof)
+        internal
+        returns (DecryptionContext memory ctx)
+    {
+        if (decryptionContexts[requestId].processed) revert ReplayDetected();
+        // Security: Replay protection ensures this callback is processed only once for a given requestId.
+
+        ctx = decryptionContexts[requestId];
+        if (encryptedMoves[ctx.batchId].length == 0) revert InvalidBatchId(); // Should not happen for a requested batch
 
-        bytes32 currentHash = _hashCiphertexts(currentCts);
+        bytes32 currentHash = _hashCiphertexts(_batchCiphertexts(ctx.batchId, ctx.indices));
         // Security: State hash verification ensures that the ciphertexts used for decryption
         // match the ciphertexts currently stored in the contract for that batch.
         // This prevents scenarios where ciphertexts might have changed after the decryption request.
@@ -218,25 +718,37 @@ contract GoFHEHiddenMoveFHE is SepoliaConfig {
         FHE.checkSignatures(requestId, cleartexts, proof);
         // Security: Proof verification ensures the cleartexts are authentic and correctly decrypted by the FHE provider.
 
-        uint256 numMoves = cleartexts.length / 12; // 3 uint32s per move
-        DecryptedMove[] memory decryptedBatchMoves = new DecryptedMove[](numMoves);
-        for (uint i = 0; i < numMoves; i++) {
-            uint256 offset = i * 12;
-            uint32 x = uint32(uint256(bytes32(cleartexts[offset    .. offset + 4])));
-            uint32 y = uint32(uint256(bytes32(cleartexts[offset + 4 .. offset + 8])));
-            uint32 revealStep = uint32(uint256(bytes32(cleartexts[offset + 8 .. offset + 12])));
-            decryptedBatchMoves[i] = DecryptedMove(x, y, revealStep);
-        }
-
-        decryptedMoves[ctx.batchId] = decryptedBatchMoves;
         decryptionContexts[requestId].processed = true;
-        emit DecryptionCompleted(requestId, ctx.batchId, decryptedBatchMoves);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    // x, y, revealStep for each selected move, or for the whole batch when no indices are given.
+    function _batchCiphertexts(uint256 batchId, uint256[] memory indices) internal view returns (bytes32[] memory cts) {
+        EncryptedMove[] storage moves = encryptedMoves[batchId];
+        uint256 count = indices.length == 0 ? moves.length : indices.length;
+        cts = new bytes32[](count * 3);
+        for (uint i = 0; i < count; i++) {
+            EncryptedMove storage move = moves[indices.length == 0 ? i : indices[i]];
+            cts[i * 3] = FHE.toBytes32(move.x);
+            cts[i * 3 + 1] = FHE.toBytes32(move.y);
+            cts[i * 3 + 2] = FHE.toBytes32(move.revealStep);
+        }
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
+    function _wordAt(bytes memory data, uint256 index) internal pure returns (uint256 word) {
+        assembly {
+            word := mload(add(add(data, 32), mul(index, 32)))
+        }
+    }
+
+    function _allowStored(euint32 val) internal {
+        FHE.allowThis(val);
+        FHE.allow(val, msg.sender);
+    }
+
     function _initIfNeeded(euint32 val) internal {
         if (!FHE.isInitialized(val)) revert NotInitialized();
     }
@@ -2,8 +2,9 @@
 import fs from "fs";
 import path from "path";
 import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
+import { ethers as hardhatEthers, network } from "hardhat";
 import { Wallet, JsonRpcProvider } from "ethers";
+import { GoHiddenMoveClient } from "../src/client/GoHiddenMoveClient";
 
 const WORD_LIBRARY = [
   'api', 'ape', 'auth', 'backend', 'config', 'controller', 'database', 'endpoint',
@@ -309,11 +310,27 @@ async function main() {
   generator.generateDifferentialFiles();
   console.log("=== Differential Files Generation Complete ===\n");
 
+  // `--network localhost` deploys to a local `npx hardhat node` from its first account and switches the
+  // frontend to the localhost profile.
+  const isLocal = network.name === "localhost";
+
+  // `HIDDEN_MOVE_ONLY=1` deploys just GoFHEHiddenMoveFHE next to the UniversalAdapter already in the frontend
+  // config, so games stored there stay where they are, and fills in its hiddenMoveAddress.
+  const hiddenMoveOnly = process.env.HIDDEN_MOVE_ONLY === "1";
+  const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
+  const frontendConfigPath = path.join(frontendConfigDir, "config.json");
+  const existingConfig = hiddenMoveOnly && fs.existsSync(frontendConfigPath)
+    ? JSON.parse(fs.readFileSync(frontendConfigPath, "utf-8"))
+    : null;
+  if (hiddenMoveOnly && !existingConfig?.contractAddress) {
+    throw new Error("HIDDEN_MOVE_ONLY needs the UniversalAdapter address in frontend/web/src/config.json");
+  }
+
   let privateKey = "";
   const walletsPath = path.join(__dirname, "wallets.txt");
   const successLogPath = path.join(__dirname, "success.txt");
   
-  if (fs.existsSync(walletsPath)) {
+  if (!isLocal && fs.existsSync(walletsPath)) {
     const walletsContent = fs.readFileSync(walletsPath, "utf-8");
     const lines = walletsContent.split("\n").filter(line => line.trim() !== "");
     if (lines.length > 0) {
@@ -321,25 +338,43 @@ async function main() {
     }
   }
 
-  if (!privateKey) {
+  if (!isLocal && !privateKey) {
     privateKey = await ask("Enter the deployer private key (testnet only): ");
   }
 
   const DEFAULT_RPC = "https://sepolia.drpc.org";
-  const rpc = DEFAULT_RPC;
+  const LOCAL_RPC = "http://127.0.0.1:8545";
+  const rpc = isLocal ? LOCAL_RPC : DEFAULT_RPC;
 
   const provider = new JsonRpcProvider(rpc);
-  const wallet = new Wallet(privateKey, provider);
+  const wallet = isLocal ? (await hardhatEthers.getSigners())[0] : new Wallet(privateKey, provider);
 
   console.log("Deployer account:", wallet.address);
 
   try {
-    const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
-    const factory = await UniversalAdapterFactory.deploy();
-    await factory.waitForDeployment();
+    let deployedAddress: string;
+    if (existingConfig) {
+      deployedAddress = existingConfig.contractAddress;
+      console.log("Using the UniversalAdapter contract at:", deployedAddress);
+    } else {
+      const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
+      const factory = await UniversalAdapterFactory.deploy();
+      await factory.waitForDeployment();
+
+      deployedAddress = (factory as any).target || (factory as any).address;
+      console.log("UniversalAdapter contract deployed at:", deployedAddress);
+    }
+
+    const HiddenMoveFactory = await hardhatEthers.getContractFactory("GoFHEHiddenMoveFHE", wallet);
+    const hiddenMove = await HiddenMoveFactory.deploy();
+    await hiddenMove.waitForDeployment();
+
+    const hiddenMoveAddress = await hiddenMove.getAddress();
+    console.log("GoFHEHiddenMoveFHE contract deployed at:", hiddenMoveAddress);
 
-    const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalAdapter contract deployed at:", deployedAddress);
+    // Players can only submit hidden moves while a batch is open.
+    const batchId = await new GoHiddenMoveClient(hiddenMoveAddress, wallet).openBatch();
+    console.log(`Opened hidden move batch ${batchId}`);
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -354,20 +389,18 @@ async function main() {
     const logEntry = `${deployedAddress} | ${wallet.address} | 成功`;
     fs.appendFileSync(successLogPath, logEntry + "\n");
 
-    const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
     if (!fs.existsSync(frontendConfigDir)) {
       console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
     } else {
       const config = {
+        profile: isLocal ? "localhost" : "sepolia",
         network: rpc,
         contractAddress: deployedAddress,
-        deployer: wallet.address,
+        deployer: existingConfig ? existingConfig.deployer : wallet.address,
+        hiddenMoveAddress,
       };
-      fs.writeFileSync(
-        path.join(frontendConfigDir, "config.json"),
-        JSON.stringify(config, null, 2)
-      );
-      console.log("Wrote frontend config: frontend/web/src/config.json");
+      fs.writeFileSync(frontendConfigPath, JSON.stringify(config, null, 2));
+      console.log(`Wrote frontend config with hiddenMoveAddress ${hiddenMoveAddress}: frontend/web/src/config.json`);
 
       try {
         const artifactPath = path.join(
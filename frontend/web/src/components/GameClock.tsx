@@ -0,0 +1,41 @@
+// components/GameClock.tsx
+import React, { useEffect, useState } from "react";
+import { Move, Player, TimeControl } from "../go/types";
+import { Clocks, PlayerClock, describeClock, runClocks } from "../go/clock";
+
+const currentTime = () => Math.floor(Date.now() / 1000);
+
+// The clocks as of now, ticking every second while one runs. Null for games without a clock or not started yet.
+// The local time only drives the display; a timeout claim is checked against block times.
+export const useClocks = (
+  control: TimeControl,
+  startTime: number | null,
+  moves: Move[],
+  running: Player | null
+): Clocks | null => {
+  const [now, setNow] = useState(currentTime);
+  const ticking = control.system !== 'none' && startTime !== null && running !== null;
+
+  useEffect(() => {
+    if (!ticking) return;
+    const timer = setInterval(() => setNow(currentTime()), 1000);
+    return () => clearInterval(timer);
+  }, [ticking]);
+
+  if (control.system === 'none' || startTime === null) return null;
+  return runClocks(control, startTime, moves, running, Math.max(now, currentTime()));
+};
+
+interface GameClockProps {
+  control: TimeControl;
+  clock: PlayerClock;
+  running: boolean;
+}
+
+const GameClock: React.FC<GameClockProps> = ({ control, clock, running }) => (
+  <span className={`game-clock${running ? ' running' : ''}${clock.expired ? ' expired' : ''}`}>
+    {describeClock(control, clock)}
+  </span>
+);
+
+export default GameClock;
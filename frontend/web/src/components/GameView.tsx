@@ -0,0 +1,999 @@
+// components/GameView.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { ethers } from "ethers";
+import { Link, useParams } from "react-router-dom";
+import { getContractReadOnly, getContractWithSigner } from "../contract";
+import { useAccount } from 'wagmi';
+import { EncryptedMoveRef, Move, PlacementCheckRef, Player, Point, opponentOf } from "../go/types";
+import {
+  MOVE_TYPE_LABELS,
+  describeMove,
+  isHiddenMove,
+  isResigned,
+  isUnrevealedHiddenMove,
+  nextPlayer,
+  parseMove
+} from "../go/moves";
+import { RULE_SETS } from "../go/ruleSets";
+import {
+  ILLEGAL_MOVE_MESSAGES,
+  Position,
+  countStones,
+  isPlayFinished,
+  playPass,
+  playStone,
+  replayMoves
+} from "../go/rules";
+import { createGameSettings, createStartingPosition, firstPlayer } from "../go/settings";
+import { HIDDEN_MOVE_BLOCKER_MESSAGES, hiddenMoveBlocker, movesUntilHiddenMove } from "../go/hiddenMoves";
+import { GameResult, describeResult, pointKey, samePoints, scorePosition, toggleDeadGroup } from "../go/scoring";
+import { sgfResult, toSgf } from "../go/sgf";
+import { clockOwner, describeTimeControl, flaggedPlayer, runClocks } from "../go/clock";
+import {
+  Game,
+  createGame,
+  gameKeys,
+  joinGame,
+  normAddr,
+  saveGame,
+  seatOf,
+  writeJson,
+  writeMove
+} from "../games";
+import {
+  acceptTakeback,
+  decryptHiddenCoords,
+  hiddenMovesEnabled,
+  openHiddenGame,
+  placeStone,
+  recallHiddenCoords,
+  recordPass,
+  requestMoveDecryption,
+  requestTakeback,
+  rememberHiddenCoords,
+  submitHiddenMove
+} from "../fhe";
+import { loadGameState } from "../gameState";
+import { OFFER_LABELS, Offer, OfferKind, answerOffer, describeOffer, makeOffer } from "../negotiation";
+import { watchGame } from "../sync";
+import ReplayViewer from "./ReplayViewer";
+import GameClock, { useClocks } from "./GameClock";
+
+interface GameStats {
+  blackStones: number;
+  whiteStones: number;
+  blackCaptures: number;
+  whiteCaptures: number;
+  hiddenMoves: number;
+  revealedMoves: number;
+}
+
+const buildGameStats = (moves: Move[], position: Position): GameStats => {
+  const stones = countStones(position.board);
+  return {
+    blackStones: stones.black,
+    whiteStones: stones.white,
+    blackCaptures: position.captures.black,
+    whiteCaptures: position.captures.white,
+    hiddenMoves: moves.filter(isHiddenMove).length,
+    revealedMoves: moves.filter(m => isHiddenMove(m) && m.revealed).length
+  };
+};
+
+const shortAddress = (address: string | null) =>
+  address ? `${address.substring(0, 6)}...${address.substring(address.length - 4)}` : "Open seat";
+
+const GameView: React.FC = () => {
+  const { gameId = '' } = useParams();
+  const { address, isConnected } = useAccount();
+  const [loading, setLoading] = useState(true);
+  const [moves, setMoves] = useState<Move[]>([]);
+  const [currentPlayer, setCurrentPlayer] = useState<'black' | 'white'>('black');
+  const [gameStats, setGameStats] = useState<GameStats>({
+    blackStones: 0,
+    whiteStones: 0,
+    blackCaptures: 0,
+    whiteCaptures: 0,
+    hiddenMoves: 0,
+    revealedMoves: 0
+  });
+  const [selectedMove, setSelectedMove] = useState<Move | null>(null);
+  const [decryptedCoords, setDecryptedCoords] = useState<{x: number, y: number} | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [placingHidden, setPlacingHidden] = useState(false);
+  const [pendingHidden, setPendingHidden] = useState<Point | null>(null);
+  const [revealDelay, setRevealDelay] = useState(0);
+  const [game, setGame] = useState<Game | null>(null);
+  const gameSettings = game ? game.settings : createGameSettings();
+  const [position, setPosition] = useState<Position>(() => createStartingPosition(createGameSettings()));
+  const [deadStoneMarks, setDeadStoneMarks] = useState<Record<Player, Point[] | null>>({ black: null, white: null });
+  const [markedDeadStones, setMarkedDeadStones] = useState<Point[]>([]);
+  const [gameResult, setGameResult] = useState<GameResult | null>(null);
+  const [startTime, setStartTime] = useState<number | null>(null);
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [unstoredMove, setUnstoredMove] = useState<Move | null>(null);
+  const [hiddenGameKey, setHiddenGameKey] = useState<string | null>(null);
+  const board = position.board;
+  const boardSize = gameSettings.boardSize;
+  const ruleSet = RULE_SETS[gameSettings.ruleSet];
+  const phase: 'waiting' | 'playing' | 'marking' | 'finished' = gameResult || isResigned(moves) || game?.status === 'finished' ? 'finished' : game?.status === 'open' ? 'waiting' : isPlayFinished(moves) ? 'marking' : 'playing';
+  const mySeat = game ? seatOf(game, address) : null;
+  const clocks = useClocks(gameSettings.timeControl, startTime, moves, phase === 'playing' ? clockOwner(moves, firstPlayer(gameSettings)) : null);
+  const canClaimTimeout = !!mySeat && !!clocks && flaggedPlayer(clocks) === opponentOf(mySeat);
+  const hiddenPolicy = gameSettings.hiddenMoves;
+  const hiddenBlocker = mySeat ? hiddenMoveBlocker(moves, mySeat, hiddenPolicy) : null;
+  // The owner's unrevealed hidden stones, as far as this browser holds their decryption.
+  const ghostStones = moves
+    .filter(m => isUnrevealedHiddenMove(m) && m.player === mySeat && m.encrypted)
+    .map(m => recallHiddenCoords(m.encrypted!))
+    .filter((p): p is Point => p !== null);
+  const ghostKeys = new Set(ghostStones.map(pointKey));
+  // Points where a visible stone was blocked: an opponent's hidden stone is known to sit there.
+  const blockedKeys = new Set(moves.filter(m => m.type === 'blocked').map(pointKey));
+  const deadStoneKeys = new Set((gameResult ? (gameResult.reason === 'score' ? gameResult.deadStones : []) : markedDeadStones).map(pointKey));
+
+  // The contract game and batches holding this game's hidden moves, and the dead-stone marks last read
+  // from the chain, for reloads triggered by live updates.
+  const hiddenGame = useRef<string | null>(null);
+  const hiddenBatches = useRef<Set<number>>(new Set());
+  const storedMarks = useRef('');
+  // Where the next move goes in the game's move log, and the next offer in its offer log.
+  const nextMoveIndex = useRef(0);
+  const nextOfferIndex = useRef(0);
+
+  useEffect(() => {
+    setLoading(true);
+    hiddenGame.current = null;
+    hiddenBatches.current = new Set();
+    storedMarks.current = '';
+    nextMoveIndex.current = 0;
+    nextOfferIndex.current = 0;
+    loadMoves().finally(() => setLoading(false));
+    return watchGame(gameId, {
+      onChange: loadMoves,
+      watchesBatch: batchId => hiddenBatches.current.has(batchId),
+      watchesHiddenGame: key => key === hiddenGame.current
+    });
+  }, [gameId]);
+
+  const loadMoves = async () => {
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      
+      const isAvailable = await contract.isAvailable();
+      if (!isAvailable) return;
+
+      const state = await loadGameState(contract, gameId);
+      setGame(state && state.game);
+      if (!state) return;
+      const { game: loadedGame, moves: loadedMoves, position: replayed, deadStoneMarks: marks } = state;
+      const settings = loadedGame.settings;
+      nextMoveIndex.current = state.nextMoveIndex;
+      setUnstoredMove(state.unstoredMove);
+      hiddenGame.current = state.hiddenGameKey;
+      setHiddenGameKey(state.hiddenGameKey);
+      setDeadStoneMarks(marks);
+      setGameResult(state.result);
+      setStartTime(state.startTime);
+      setOffers(state.offers);
+      nextOfferIndex.current = state.nextOfferIndex;
+      hiddenBatches.current = new Set(loadedMoves.filter(m => m.encrypted).map(m => m.encrypted!.batchId));
+      setMoves(loadedMoves);
+      setCurrentPlayer(nextPlayer(loadedMoves, firstPlayer(settings)) || firstPlayer(settings));
+      setPosition(replayed);
+      setGameStats(buildGameStats(loadedMoves, replayed));
+      // Keep the marks being edited unless the chain has new ones.
+      if (JSON.stringify(marks) !== storedMarks.current) {
+        storedMarks.current = JSON.stringify(marks);
+        setMarkedDeadStones(marks.black || marks.white || []);
+      }
+    } catch (e) { 
+      console.error("Error loading moves:", e); 
+    } finally { 
+      setLoading(false); 
+    }
+  };
+
+  // Returns the move with the key it was stored under, which a later reveal rewrites. With hidden moves
+  // the contract has already counted the move by now.
+  const storeMove = async (contract: ethers.Contract, moveData: Move): Promise<Move> => {
+    const storageKey = gameKeys.move(gameId, nextMoveIndex.current);
+    await writeMove(contract, storageKey, moveData);
+    nextMoveIndex.current += 1;
+    return { ...moveData, storageKey };
+  };
+
+  // Writes the move the contract counted but the log is missing, after which play goes on.
+  const storeRecordedMove = async () => {
+    if (!unstoredMove) return;
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+      await storeMove(contract, unstoredMove);
+      await loadMoves();
+    } catch (e: any) {
+      console.error("Storing the recorded move failed:", e);
+      alert(`Storing the move failed: ${e.message || "Unknown error"}`);
+    }
+  };
+
+  const finishGame = async (contract: ethers.Contract, result: GameResult) => {
+    await writeJson(contract, gameKeys.result(gameId), result);
+    if (game) {
+      const finished: Game = { ...game, status: 'finished' };
+      await saveGame(contract, finished);
+      setGame(finished);
+    }
+    setGameResult(result);
+  };
+
+  const takeSeat = async () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    if (!game || game.status !== 'open') return;
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+      // The contract game goes first: a game record whose seats it does not match is played without
+      // hidden moves.
+      if (hiddenMovesEnabled()) await openHiddenGame(game);
+      const joined = await joinGame(contract, game, address);
+      setGame(joined);
+    } catch (e: any) {
+      console.error("Joining game failed:", e);
+      alert(`Joining game failed: ${e.message || "Unknown error"}`);
+    }
+  };
+
+  // Only the wallet bound to the colour on move may play; other visitors just watch.
+  const checkTurn = () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return false; }
+    if (phase !== 'playing') { alert(game?.status === 'open' ? "Waiting for an opponent to join" : "The game is no longer in the playing phase"); return false; }
+    if (!mySeat) { alert("You are not seated in this game"); return false; }
+    if (mySeat !== currentPlayer) { alert("It's not your turn"); return false; }
+    return true;
+  };
+
+  // Local bookkeeping shared by every move type once the move is stored on-chain.
+  const appendMove = (newMove: Move, updatedPosition: Position) => {
+    const updatedMoves = [...moves, newMove];
+    setMoves(updatedMoves);
+    setCurrentPlayer(nextPlayer(updatedMoves, firstPlayer(gameSettings)) || currentPlayer);
+    setPosition(updatedPosition);
+    setGameStats(buildGameStats(updatedMoves, updatedPosition));
+  };
+
+  const makeMove = async (x: number, y: number, isHidden: boolean = false) => {
+    if (!checkTurn()) return;
+    if (ghostKeys.has(pointKey({ x, y }))) { alert("Your hidden stone already occupies this point"); return; }
+    const result = isHidden ? null : playStone(position, x, y, currentPlayer, ruleSet.koRule);
+    if (result && !result.legal) { alert(ILLEGAL_MOVE_MESSAGES[result.reason]); return; }
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+
+      let encrypted: EncryptedMoveRef | undefined;
+      let check: PlacementCheckRef | undefined;
+      let blocked = false;
+
+      if (isHidden) {
+        if (hiddenBlocker) throw new Error(HIDDEN_MOVE_BLOCKER_MESSAGES[hiddenBlocker]);
+        if (!hiddenGameKey) throw new Error("This game is played without hidden moves");
+        encrypted = await submitHiddenMove(hiddenGameKey, address!, x, y, moves.length + 1 + revealDelay);
+        rememberHiddenCoords(encrypted, { x, y });
+      } else if (hiddenGameKey) {
+        ({ check, blocked } = await placeStone(hiddenGameKey, x, y));
+      }
+
+      const newMove: Move = {
+        type: isHidden ? 'hidden' : blocked ? 'blocked' : 'place',
+        x: isHidden ? -1 : x,
+        y: isHidden ? -1 : y,
+        player: currentPlayer,
+        signer: normAddr(address!),
+        timestamp: Math.floor(Date.now() / 1000),
+        revealed: false,
+        encrypted,
+        check
+      };
+
+      const stored = await storeMove(contract, newMove);
+      if (blocked) {
+        appendMove(stored, playPass(position, currentPlayer));
+        alert(`(${x},${y}) holds a hidden stone of your opponent. Your stone is not placed and you lose this turn.`);
+      } else {
+        // A hidden stone stays off the public board, but its turn still counts for ko
+        appendMove(stored, result?.legal ? result.position : playPass(position, currentPlayer));
+      }
+    } catch (e: any) {
+      console.error("Move submission failed:", e);
+      alert(`Move failed: ${e.message || "Unknown error"}`);
+      // The contract may have counted the move even though the log write failed
+      await loadMoves();
+    }
+  };
+
+  const selectHiddenPoint = (x: number, y: number) => {
+    if (board[x][y] || ghostKeys.has(pointKey({ x, y }))) { alert("Choose an empty intersection"); return; }
+    setPendingHidden({ x, y });
+  };
+
+  const startHiddenPlacement = () => {
+    setRevealDelay(hiddenPolicy.minRevealDelay);
+    setPlacingHidden(true);
+  };
+
+  const cancelHiddenPlacement = () => {
+    setPlacingHidden(false);
+    setPendingHidden(null);
+  };
+
+  const confirmHiddenMove = async () => {
+    if (!pendingHidden) return;
+    await makeMove(pendingHidden.x, pendingHidden.y, true);
+    cancelHiddenPlacement();
+  };
+
+  const passTurn = async () => {
+    if (!checkTurn()) return;
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+
+      const passMove: Move = {
+        type: 'pass',
+        x: -1,
+        y: -1,
+        player: currentPlayer,
+        signer: normAddr(address!),
+        timestamp: Math.floor(Date.now() / 1000),
+        revealed: false
+      };
+      if (hiddenGameKey) await recordPass(hiddenGameKey);
+      appendMove(await storeMove(contract, passMove), playPass(position, currentPlayer));
+    } catch (e: any) {
+      console.error("Pass failed:", e);
+      alert(`Pass failed: ${e.message || "Unknown error"}`);
+      await loadMoves();
+    }
+  };
+
+  const resignGame = async () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    if (phase === 'finished') return;
+    if (!mySeat) { alert("You are not seated in this game"); return; }
+    if (!window.confirm(`Resign the game as ${mySeat}?`)) return;
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+
+      const resignMove: Move = {
+        type: 'resign',
+        x: -1,
+        y: -1,
+        player: mySeat,
+        signer: normAddr(address),
+        timestamp: Math.floor(Date.now() / 1000),
+        revealed: false
+      };
+      const stored = await storeMove(contract, resignMove);
+
+      const result: GameResult = {
+        winner: opponentOf(mySeat),
+        reason: 'resignation',
+        timestamp: resignMove.timestamp
+      };
+      appendMove(stored, position);
+      await finishGame(contract, result);
+    } catch (e: any) {
+      console.error("Resign failed:", e);
+      alert(`Resign failed: ${e.message || "Unknown error"}`);
+    }
+  };
+
+  // The clocks are run again up to the latest block, which is how everyone loading the game checks the claim.
+  const claimTimeout = async () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    if (!mySeat || phase !== 'playing' || startTime === null) return;
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+
+      const latest = await contract.runner?.provider?.getBlock('latest');
+      if (!latest) throw new Error("Could not read the latest block");
+      const chainClocks = runClocks(gameSettings.timeControl, startTime, moves, clockOwner(moves, firstPlayer(gameSettings)), latest.timestamp);
+      if (flaggedPlayer(chainClocks) !== opponentOf(mySeat)) { alert("Your opponent still has time by the latest block"); return; }
+
+      await finishGame(contract, { winner: mySeat, reason: 'timeout', timestamp: Math.floor(Date.now() / 1000) });
+    } catch (e: any) {
+      console.error("Claiming the timeout failed:", e);
+      alert(`Claiming the timeout failed: ${e.message || "Unknown error"}`);
+    }
+  };
+
+  // Moves an undo would take back: the requester's last move, and the opponent's reply to it if there is one.
+  const undoCount = (): number => {
+    const last = moves[moves.length - 1];
+    if (!mySeat || !last) return 0;
+    if (last.player === mySeat) return 1;
+    return moves.length >= 2 && moves[moves.length - 2].player === mySeat ? 2 : 0;
+  };
+
+  const sendOffer = async (kind: OfferKind) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    if (!mySeat) { alert("You are not seated in this game"); return; }
+    const count = kind === 'undo' ? undoCount() : undefined;
+    if (count === 0) { alert("You have no move to take back"); return; }
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+      if (kind === 'undo' && hiddenGameKey) await requestTakeback(hiddenGameKey, count!);
+      await makeOffer(contract, gameId, nextOfferIndex.current, {
+        kind,
+        player: mySeat,
+        signer: normAddr(address),
+        moveIndex: nextMoveIndex.current,
+        count,
+        timestamp: Math.floor(Date.now() / 1000)
+      });
+      nextOfferIndex.current += 1;
+      await loadMoves();
+    } catch (e: any) {
+      console.error("Sending the offer failed:", e);
+      alert(`Sending the offer failed: ${e.message || "Unknown error"}`);
+    }
+  };
+
+  // An accepted undo is first agreed in the contract when it counts the game's moves, and takes effect
+  // when the game is next loaded; a draw ends the game and a rematch
+  // opens a new one with the colours swapped, which the offering player then joins.
+  const answer = async (offer: Offer, accepted: boolean) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    if (!game || !mySeat) return;
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+
+      let rematchId: string | undefined;
+      if (accepted && offer.kind === 'rematch') {
+        const rematch = await createGame(contract, address, opponentOf(mySeat), gameSettings);
+        rematchId = rematch.id;
+      }
+      if (accepted && offer.kind === 'undo' && hiddenGameKey) await acceptTakeback(hiddenGameKey, offer.count!);
+      const timestamp = Math.floor(Date.now() / 1000);
+      await answerOffer(contract, gameId, offer, { accepted, player: mySeat, signer: normAddr(address), timestamp, rematchId });
+      if (accepted && offer.kind === 'draw') await finishGame(contract, { winner: null, reason: 'agreement', timestamp });
+      await loadMoves();
+    } catch (e: any) {
+      console.error("Answering the offer failed:", e);
+      alert(`Answering the offer failed: ${e.message || "Unknown error"}`);
+    }
+  };
+
+  const toggleDeadStones = (x: number, y: number) => {
+    setMarkedDeadStones(toggleDeadGroup(board, markedDeadStones, x, y));
+  };
+
+  // Each player submits the dead stones they agree on; once both lists match the score is final.
+  const submitDeadStones = async () => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (phase !== 'marking' || !mySeat) return;
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+
+      await writeJson(contract, gameKeys.deadStones(gameId, mySeat), markedDeadStones);
+      const marks = { ...deadStoneMarks, [mySeat]: markedDeadStones };
+      setDeadStoneMarks(marks);
+
+      if (marks.black && marks.white && samePoints(marks.black, marks.white)) {
+        const score = scorePosition(position, markedDeadStones, ruleSet.scoring, gameSettings.komi);
+        const result: GameResult = {
+          winner: score.winner,
+          reason: 'score',
+          black: score.black,
+          white: score.white,
+          margin: score.margin,
+          scoring: ruleSet.scoring,
+          komi: gameSettings.komi,
+          deadStones: markedDeadStones,
+          timestamp: Math.floor(Date.now() / 1000)
+        };
+        await finishGame(contract, result);
+      }
+    } catch (e: any) {
+      console.error("Submitting dead stones failed:", e);
+      alert(`Submitting dead stones failed: ${e.message || "Unknown error"}`);
+    }
+  };
+
+  // Decrypts one of the player's own hidden stones for their eyes only; nothing is written on-chain.
+  const viewHiddenMove = async (move: Move) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (move.player !== mySeat || !move.encrypted) return;
+
+    setIsDecrypting(true);
+    try {
+      setDecryptedCoords(await decryptHiddenCoords(move.encrypted));
+    } catch (e) {
+      console.error("Decryption failed:", e);
+      alert("Failed to decrypt hidden move");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const revealHiddenMove = async (move: Move) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!isUnrevealedHiddenMove(move)) return;
+    if (move.player !== mySeat) { alert("Only the player who made this move can reveal it"); return; }
+    if (!move.encrypted) { alert("No encrypted data found for this move"); return; }
+    if (!move.storageKey) { alert("This move has not been stored yet"); return; }
+
+    setIsDecrypting(true);
+    try {
+      const coords = await decryptHiddenCoords(move.encrypted);
+      if (coords.x < 0 || coords.y < 0 || coords.x >= boardSize || coords.y >= boardSize) {
+        throw new Error(`Decrypted coordinates (${coords.x},${coords.y}) are off the board`);
+      }
+      setDecryptedCoords(coords);
+
+      // Have the oracle publish this move alone, so other clients need not trust the written coordinates.
+      // The contract takes the stone out of the placement checks once the cleartext arrives.
+      await requestMoveDecryption([move.encrypted]);
+
+      // The move is revealed now, on the move the game is at, whether or not the record below is rewritten.
+      const updatedMove = {
+        ...move,
+        x: coords.x,
+        y: coords.y,
+        revealed: true,
+        revealedAt: moves.length
+      };
+
+      try {
+        const contract = await getContractWithSigner();
+        if (!contract) throw new Error("Failed to get contract with signer");
+        await writeMove(contract, move.storageKey, updatedMove);
+      } catch (e) {
+        // The contract's reveal event still records the move, so the reveal stands without the rewrite.
+        console.warn("Could not rewrite the revealed move record:", e);
+      }
+
+      // Update local state
+      const updatedMoves = moves.map(m => 
+        m.storageKey === move.storageKey ? updatedMove : m
+      );
+      setMoves(updatedMoves);
+
+      // Rebuild the board so the revealed stone can capture (or be rejected) like any other move
+      const { position: replayed } = replayMoves(updatedMoves, createStartingPosition(gameSettings), ruleSet.koRule);
+      setPosition(replayed);
+      setGameStats(buildGameStats(updatedMoves, replayed));
+
+    } catch (e) { 
+      console.error("Decryption failed:", e);
+      alert("Failed to reveal hidden move");
+    } finally { 
+      setIsDecrypting(false); 
+    }
+  };
+
+  // Only public information goes into the file: hidden stones stay hidden until revealed.
+  const downloadSgf = () => {
+    if (!game) return;
+    const sgf = toSgf({
+      settings: gameSettings,
+      players: game.players,
+      moves,
+      result: sgfResult(gameResult),
+      name: game.id,
+      date: new Date(game.createdAt * 1000).toISOString().substring(0, 10)
+    });
+    const url = URL.createObjectURL(new Blob([sgf], { type: 'application/x-go-sgf' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `encrypted-go-${game.id}.sgf`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderStone = (x: number, y: number) => {
+    const stone = board[x][y];
+    const dead = deadStoneKeys.has(pointKey({ x, y })) ? ' dead' : '';
+    if (stone === 'black') return <div className={`stone black${dead}`} />;
+    if (stone === 'white') return <div className={`stone white${dead}`} />;
+    if (mySeat && pendingHidden?.x === x && pendingHidden?.y === y) return <div className={`stone ${mySeat} ghost pending`} />;
+    if (mySeat && ghostKeys.has(pointKey({ x, y }))) return <div className={`stone ${mySeat} ghost`} />;
+    if (blockedKeys.has(pointKey({ x, y }))) return <div className="hidden-marker" title="Hidden stone" />;
+    return null;
+  };
+
+  const renderScorePanel = () => {
+    if (phase === 'playing' || phase === 'waiting') return null;
+    const score = scorePosition(position, markedDeadStones, ruleSet.scoring, gameSettings.komi);
+    return (
+      <div className="score-panel zen-card">
+        {gameResult ? (
+          <>
+            <h3>Game Over</h3>
+            <p className="score-result">{describeResult(gameResult)}</p>
+            {gameResult.reason === 'score' && (
+              <p>Black {gameResult.black} &middot; White {gameResult.white} ({gameResult.scoring} scoring, komi {gameResult.komi})</p>
+            )}
+          </>
+        ) : (
+          <>
+            <h3>Mark Dead Stones</h3>
+            <p>Both players passed. Click groups on the board to mark them dead, then submit. The score is final once both players submit the same stones.</p>
+            <p>Estimate: Black {score.black} &middot; White {score.white} ({ruleSet.scoring} scoring, komi {gameSettings.komi})</p>
+            <p>
+              Black: {deadStoneMarks.black ? "submitted" : "waiting"} &middot; White: {deadStoneMarks.white ? "submitted" : "waiting"}
+            </p>
+            {mySeat && (
+              <button className="zen-button" onClick={submitDeadStones}>
+                Submit dead stones as {mySeat === 'black' ? "Black" : "White"}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderMoveHistory = () => {
+    return (
+      <div className="move-history">
+        <h3>Move History</h3>
+        <div className="history-list">
+          {moves.map((move, index) => (
+            <div 
+              key={index} 
+              className={`history-item ${move.player} ${move.type}`}
+              onClick={() => { setSelectedMove(move); setDecryptedCoords(null); }}
+            >
+              <span className="move-number">{index + 1}.</span>
+              <span className="move-desc">{describeMove(move)}</span>
+              {isUnrevealedHiddenMove(move) && move.player === mySeat && (
+                <button 
+                  className="reveal-btn" 
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    revealHiddenMove(move);
+                  }}
+                  disabled={isDecrypting}
+                >
+                  {isDecrypting ? "Decrypting..." : "Reveal"}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderOffers = () => {
+    if (!mySeat) return null;
+    const incoming = offers.filter(o => o.status === 'pending' && o.player !== mySeat);
+    const outgoing = offers.filter(o => o.status === 'pending' && o.player === mySeat);
+    const declined = offers.filter(o => o.status === 'declined' && o.player === mySeat && o.moveIndex === nextMoveIndex.current);
+    const rematch = [...offers].reverse().find(o => o.kind === 'rematch' && o.status === 'accepted' && o.reply?.rematchId);
+    if (incoming.length + outgoing.length + declined.length === 0 && !rematch) return null;
+
+    return (
+      <div className="offer-panel zen-card">
+        {incoming.map(offer => (
+          <div key={offer.index} className="offer-item">
+            <span className="offer-desc">{offer.player === 'black' ? "Black" : "White"}: {describeOffer(offer)}</span>
+            <button className="zen-button" onClick={() => answer(offer, true)}>Accept</button>
+            <button className="zen-button" onClick={() => answer(offer, false)}>Decline</button>
+          </div>
+        ))}
+        {outgoing.map(offer => (
+          <div key={offer.index} className="offer-item">
+            <span className="offer-desc">{OFFER_LABELS[offer.kind]} sent, waiting for an answer</span>
+          </div>
+        ))}
+        {declined.map(offer => (
+          <div key={offer.index} className="offer-item">
+            <span className="offer-desc">{OFFER_LABELS[offer.kind]} declined</span>
+          </div>
+        ))}
+        {rematch && (
+          <div className="offer-item">
+            <span className="offer-desc">Rematch accepted</span>
+            <Link to={`/game/${rematch.reply!.rematchId}`} className="zen-button">Go to the rematch</Link>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Offers of each kind the player already has pending are not repeated.
+  const offerPending = (kind: OfferKind) => offers.some(o => o.kind === kind && o.status === 'pending' && o.player === mySeat);
+
+  if (loading) return (
+    <div className="loading-screen">
+      <div className="go-spinner"></div>
+      <p>Initializing encrypted Go board...</p>
+    </div>
+  );
+
+  if (!game) return (
+    <div className="game-not-found zen-card">
+      <h2>Game not found</h2>
+      <p>No game with id {gameId} exists on this contract.</p>
+      <Link to="/" className="zen-button">Back to lobby</Link>
+    </div>
+  );
+
+  const seatOpen = game.status === 'open' && !!address && !mySeat;
+
+  return (
+    <>
+      <div className="game-header zen-card">
+        <Link to="/" className="back-link">&larr; Lobby</Link>
+        <div className="game-players">
+          <span className="player black">Black: {shortAddress(game.players.black)}</span>
+          <span className="player white">White: {shortAddress(game.players.white)}</span>
+        </div>
+        <span className={`game-status ${game.status}`}>{game.status}</span>
+        {seatOpen && <button className="zen-button" onClick={takeSeat}>Join game</button>}
+        {!mySeat && <Link to={`/watch/${game.id}`} className="zen-button">Spectate</Link>}
+        <button className="zen-button" onClick={downloadSgf}>Download SGF</button>
+      </div>
+
+      <div className="game-container">
+        <div className="player-info black">
+          <div className="stone-indicator black"></div>
+          <div className="player-stats">
+            <span className="player-name">Black</span>
+            <span className="stone-count">{gameStats.blackStones} stones</span>
+            <span className="stone-count">{gameStats.blackCaptures} captured</span>
+            {clocks && <GameClock control={gameSettings.timeControl} clock={clocks.clocks.black} running={clocks.running === 'black'} />}
+          </div>
+          {currentPlayer === 'black' && <div className="current-turn">{mySeat === 'black' ? "Your turn" : "To move"}</div>}
+        </div>
+
+        <div className="go-board-container">
+          <div className="go-board">
+            {Array(boardSize).fill(null).map((_, x) => (
+              <div key={`row-${x}`} className="board-row">
+                {Array(boardSize).fill(null).map((_, y) => (
+                  <div 
+                    key={`intersection-${x}-${y}`} 
+                    className="intersection"
+                    onClick={() => phase === 'marking' ? toggleDeadStones(x, y) : placingHidden ? selectHiddenPoint(x, y) : makeMove(x, y)}
+                  >
+                    {renderStone(x, y)}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+          {hiddenBlocker !== 'not-due' && hiddenGameKey && phase === 'playing' && mySeat === currentPlayer && (
+            <div className={`hidden-move-option zen-card${placingHidden ? ' placing' : ''}`}>
+              <h3>{hiddenBlocker ? "Hidden Move Unavailable" : "Hidden Move Available"}</h3>
+              {hiddenBlocker ? (
+                <p>{HIDDEN_MOVE_BLOCKER_MESSAGES[hiddenBlocker]}.</p>
+              ) : !placingHidden ? (
+                <>
+                  <p>You can place a hidden move this turn. The position will be encrypted with Zama FHE.</p>
+                  <button className="zen-button" onClick={startHiddenPlacement}>
+                    Place Hidden Move
+                  </button>
+                </>
+              ) : (
+                <>
+                  <p>
+                    {pendingHidden
+                      ? `Hidden stone at (${pendingHidden.x},${pendingHidden.y}). Only you can see it until it is revealed.`
+                      : "Click an empty intersection to place your hidden stone."}
+                  </p>
+                  <label className="reveal-delay">
+                    Reveal after
+                    <input
+                      className="komi-input"
+                      type="number"
+                      min={hiddenPolicy.minRevealDelay}
+                      max={hiddenPolicy.maxRevealDelay}
+                      value={revealDelay}
+                      onChange={(e) => setRevealDelay(Math.min(hiddenPolicy.maxRevealDelay,
+                        Math.max(hiddenPolicy.minRevealDelay, parseInt(e.target.value) || 0)))}
+                    />
+                    moves
+                  </label>
+                  <button className="zen-button" onClick={confirmHiddenMove} disabled={!pendingHidden}>
+                    Confirm
+                  </button>
+                  <button className="zen-button" onClick={cancelHiddenPlacement}>
+                    Cancel
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {unstoredMove && unstoredMove.signer === normAddr(address || '') && (
+          <div className="unstored-move zen-card">
+            <p>Your last move was counted on-chain but is missing from the game log.</p>
+            <button className="zen-button" onClick={storeRecordedMove}>Store it</button>
+          </div>
+        )}
+        {(phase === 'playing' || phase === 'marking') && (
+          <div className="board-actions">
+            {phase === 'playing' && <button className="zen-button" onClick={passTurn}>Pass</button>}
+            <button className="zen-button" onClick={resignGame}>Resign</button>
+            {canClaimTimeout && <button className="zen-button" onClick={claimTimeout}>Claim win on time</button>}
+            {mySeat && phase === 'playing' && (
+              <button className="zen-button" onClick={() => sendOffer('undo')} disabled={offerPending('undo')}>Request undo</button>
+            )}
+            {mySeat && <button className="zen-button" onClick={() => sendOffer('draw')} disabled={offerPending('draw')}>Offer draw</button>}
+          </div>
+        )}
+        {phase === 'finished' && mySeat && (
+          <div className="board-actions">
+            <button className="zen-button" onClick={() => sendOffer('rematch')} disabled={offerPending('rematch')}>Offer rematch</button>
+          </div>
+        )}
+
+        <div className="player-info white">
+          <div className="stone-indicator white"></div>
+          <div className="player-stats">
+            <span className="player-name">White</span>
+            <span className="stone-count">{gameStats.whiteStones} stones</span>
+            <span className="stone-count">{gameStats.whiteCaptures} captured</span>
+            {clocks && <GameClock control={gameSettings.timeControl} clock={clocks.clocks.white} running={clocks.running === 'white'} />}
+          </div>
+          {currentPlayer === 'white' && <div className="current-turn">{mySeat === 'white' ? "Your turn" : "To move"}</div>}
+        </div>
+      </div>
+
+      {renderOffers()}
+
+      {renderScorePanel()}
+
+      <div className="game-stats zen-card">
+        <div className="stat-item">
+          <div className="stat-label">Rules</div>
+          <div className="stat-value">{ruleSet.name}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Board</div>
+          <div className="stat-value">{boardSize}x{boardSize}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Handicap</div>
+          <div className="stat-value">{gameSettings.handicap || "None"}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Komi</div>
+          <div className="stat-value">{gameSettings.komi}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Time Control</div>
+          <div className="stat-value">{describeTimeControl(gameSettings.timeControl)}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Hidden Moves</div>
+          <div className="stat-value">{gameStats.hiddenMoves}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Revealed Moves</div>
+          <div className="stat-value">{gameStats.revealedMoves}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Total Moves</div>
+          <div className="stat-value">{moves.length}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Hidden Policy</div>
+          <div className="stat-value">
+            {hiddenPolicy.maxPerPlayer} each, {hiddenPolicy.maxUnrevealed} at once
+          </div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Reveal Delay</div>
+          <div className="stat-value">{hiddenPolicy.minRevealDelay}-{hiddenPolicy.maxRevealDelay} moves</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Next Hidden</div>
+          <div className="stat-value">
+            {movesUntilHiddenMove(moves, hiddenPolicy)} moves
+          </div>
+        </div>
+      </div>
+
+      <ReplayViewer moves={moves} settings={gameSettings} />
+
+      {renderMoveHistory()}
+
+      {selectedMove && (
+        <div className="modal-overlay">
+          <div className="move-detail-modal zen-card">
+            <div className="modal-header">
+              <h2>Move Details</h2>
+              <button onClick={() => setSelectedMove(null)} className="close-modal">&times;</button>
+            </div>
+            <div className="modal-body">
+              <div className="move-info">
+                <div className="info-item">
+                  <span>Player:</span>
+                  <strong className={`player ${selectedMove.player}`}>{selectedMove.player}</strong>
+                </div>
+                <div className="info-item">
+                  <span>Time:</span>
+                  <strong>{new Date(selectedMove.timestamp * 1000).toLocaleString()}</strong>
+                </div>
+                <div className="info-item">
+                  <span>Type:</span>
+                  <strong>{MOVE_TYPE_LABELS[selectedMove.type]}</strong>
+                </div>
+                {isUnrevealedHiddenMove(selectedMove) ? (
+                  <div className="info-item">
+                    <span>Status:</span>
+                    <strong>Encrypted with Zama FHE</strong>
+                  </div>
+                ) : (selectedMove.type === 'place' || selectedMove.type === 'hidden') && (
+                  <div className="info-item">
+                    <span>Position:</span>
+                    <strong>({selectedMove.x}, {selectedMove.y})</strong>
+                  </div>
+                )}
+              </div>
+              {isUnrevealedHiddenMove(selectedMove) && (
+                <div className="encrypted-section">
+                  <h3>Encrypted Data</h3>
+                  <div className="encrypted-data">
+                    {selectedMove.encrypted
+                      ? `Batch #${selectedMove.encrypted.batchId}, move ${selectedMove.encrypted.index}: ${selectedMove.encrypted.x.substring(0, 42)}...`
+                      : "Missing"}
+                  </div>
+                  {selectedMove.player === mySeat && (
+                    <>
+                      <button
+                        className="zen-button"
+                        onClick={() => viewHiddenMove(selectedMove)}
+                        disabled={isDecrypting}
+                      >
+                        {isDecrypting ? "Decrypting..." : "View Privately"}
+                      </button>
+                      <button 
+                        className="zen-button" 
+                        onClick={() => revealHiddenMove(selectedMove)}
+                        disabled={isDecrypting}
+                      >
+                        {isDecrypting ? "Decrypting..." : "Reveal Move"}
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+              {decryptedCoords && isHiddenMove(selectedMove) && (
+                <div className="decrypted-section">
+                  <h3>Decrypted Position</h3>
+                  <div className="decrypted-coords">
+                    ({decryptedCoords.x}, {decryptedCoords.y})
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default GameView;
@@ -0,0 +1,259 @@
+// components/Lobby.tsx
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useAccount } from 'wagmi';
+import { getContractReadOnly, getContractWithSigner } from "../contract";
+import { Game, GameStatus, createGame, listGames, seatOf } from "../games";
+import { GameSettings, HiddenMovePolicy, Player, TimeControl, TimeSystem } from "../go/types";
+import { RULE_SETS, RuleSetId } from "../go/ruleSets";
+import { BOARD_SIZES, BoardSize, MAX_HANDICAP } from "../go/handicap";
+import { createGameSettings } from "../go/settings";
+import { isValidHiddenMovePolicy } from "../go/hiddenMoves";
+import { TIME_SYSTEM_LABELS, isValidTimeControl } from "../go/clock";
+import { hiddenMovesEnabled } from "../fhe";
+
+const STATUS_SECTIONS: Array<{ status: GameStatus; title: string; empty: string }> = [
+  { status: 'open', title: "Open Games", empty: "No games are waiting for an opponent." },
+  { status: 'running', title: "Running Games", empty: "No games in progress." },
+  { status: 'finished', title: "Finished Games", empty: "No finished games yet." }
+];
+
+const POLICY_FIELDS: Array<{ field: keyof HiddenMovePolicy; label: string; min: number }> = [
+  { field: 'interval', label: "Hidden every", min: 1 },
+  { field: 'maxPerPlayer', label: "Hidden per player", min: 0 },
+  { field: 'maxUnrevealed', label: "Unrevealed at once", min: 0 },
+  { field: 'minRevealDelay', label: "Reveal after at least", min: 1 },
+  { field: 'maxRevealDelay', label: "Reveal after at most", min: 1 }
+];
+
+// Stored in seconds; main time is entered in minutes.
+const TIME_FIELDS: Array<{ field: Exclude<keyof TimeControl, 'system'>; label: string; scale: number; systems: TimeSystem[] }> = [
+  { field: 'mainTime', label: "Main time (min)", scale: 60, systems: ['absolute', 'fischer', 'byo-yomi'] },
+  { field: 'increment', label: "Increment (s)", scale: 1, systems: ['fischer'] },
+  { field: 'periods', label: "Periods", scale: 1, systems: ['byo-yomi'] },
+  { field: 'periodTime', label: "Period (s)", scale: 1, systems: ['byo-yomi'] }
+];
+
+const shortAddress = (address: string | null) =>
+  address ? `${address.substring(0, 6)}...${address.substring(address.length - 4)}` : "Open seat";
+
+const Lobby: React.FC = () => {
+  const { address, isConnected } = useAccount();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [games, setGames] = useState<Game[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [settings, setSettings] = useState<GameSettings>(() => createGameSettings());
+  const [color, setColor] = useState<Player>('black');
+
+  useEffect(() => {
+    loadGames().finally(() => setLoading(false));
+  }, []);
+
+  // Games that can no longer be joined open read-only for anyone without a seat.
+  const gamePath = (game: Game) =>
+    game.status !== 'open' && !seatOf(game, address) ? `/watch/${game.id}` : `/game/${game.id}`;
+
+  const loadGames = async () => {
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+
+      const isAvailable = await contract.isAvailable();
+      if (!isAvailable) return;
+
+      setGames(await listGames(contract));
+    } catch (e) {
+      console.error("Error loading games:", e);
+    }
+  };
+
+  const submitNewGame = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    if (!isValidHiddenMovePolicy(settings.hiddenMoves)) { alert("The reveal delay range is invalid"); return; }
+    if (!isValidTimeControl(settings.timeControl)) { alert("The time control is invalid"); return; }
+
+    setCreating(true);
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+
+      const game = await createGame(contract, address, color, settings);
+      navigate(`/game/${game.id}`);
+    } catch (e: any) {
+      console.error("Creating game failed:", e);
+      alert(`Creating game failed: ${e.message || "Unknown error"}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (loading) return (
+    <div className="loading-screen">
+      <div className="go-spinner"></div>
+      <p>Loading games...</p>
+    </div>
+  );
+
+  return (
+    <div className="lobby">
+      <form className="new-game-form zen-card" onSubmit={submitNewGame}>
+        <h2>New Game</h2>
+        <div className="form-row">
+          <label>
+            Rules
+            <select
+              className="rules-select"
+              value={settings.ruleSet}
+              onChange={(e) => setSettings({
+                ...createGameSettings(e.target.value as RuleSetId, settings.boardSize, settings.handicap),
+                hiddenMoves: settings.hiddenMoves,
+                timeControl: settings.timeControl
+              })}
+            >
+              {Object.values(RULE_SETS).map(r => (
+                <option key={r.id} value={r.id}>{r.name}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Board
+            <select
+              className="rules-select"
+              value={settings.boardSize}
+              onChange={(e) => setSettings({ ...settings, boardSize: Number(e.target.value) as BoardSize })}
+            >
+              {BOARD_SIZES.map(size => (
+                <option key={size} value={size}>{size}x{size}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Handicap
+            <select
+              className="rules-select"
+              value={settings.handicap}
+              onChange={(e) => setSettings({
+                ...createGameSettings(settings.ruleSet, settings.boardSize, Number(e.target.value)),
+                hiddenMoves: settings.hiddenMoves,
+                timeControl: settings.timeControl
+              })}
+            >
+              <option value={0}>None</option>
+              {Array.from({ length: MAX_HANDICAP - 1 }, (_, i) => i + 2).map(count => (
+                <option key={count} value={count}>{count} stones</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Komi
+            <input
+              className="komi-input"
+              type="number"
+              step={0.5}
+              value={settings.komi}
+              onChange={(e) => setSettings({ ...settings, komi: parseFloat(e.target.value) || 0 })}
+            />
+          </label>
+          <label>
+            Play as
+            <select className="rules-select" value={color} onChange={(e) => setColor(e.target.value as Player)}>
+              <option value="black">Black</option>
+              <option value="white">White</option>
+            </select>
+          </label>
+        </div>
+        {hiddenMovesEnabled() && (
+          <div className="form-row">
+            {POLICY_FIELDS.map(({ field, label, min }) => (
+              <label key={field}>
+                {label}
+                <input
+                  className="komi-input"
+                  type="number"
+                  min={min}
+                  step={1}
+                  value={settings.hiddenMoves[field]}
+                  onChange={(e) => setSettings({
+                    ...settings,
+                    hiddenMoves: { ...settings.hiddenMoves, [field]: Math.max(min, parseInt(e.target.value) || 0) }
+                  })}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+        <div className="form-row">
+          <label>
+            Clock
+            <select
+              className="rules-select"
+              value={settings.timeControl.system}
+              onChange={(e) => setSettings({
+                ...settings,
+                timeControl: { ...settings.timeControl, system: e.target.value as TimeSystem }
+              })}
+            >
+              {(Object.keys(TIME_SYSTEM_LABELS) as TimeSystem[]).map(system => (
+                <option key={system} value={system}>{TIME_SYSTEM_LABELS[system]}</option>
+              ))}
+            </select>
+          </label>
+          {TIME_FIELDS.filter(({ systems }) => systems.includes(settings.timeControl.system)).map(({ field, label, scale }) => (
+            <label key={field}>
+              {label}
+              <input
+                className="komi-input"
+                type="number"
+                min={0}
+                step={1}
+                value={settings.timeControl[field] / scale}
+                onChange={(e) => setSettings({
+                  ...settings,
+                  timeControl: { ...settings.timeControl, [field]: Math.max(0, parseInt(e.target.value) || 0) * scale }
+                })}
+              />
+            </label>
+          ))}
+        </div>
+        <button type="submit" className="zen-button" disabled={creating}>
+          {creating ? "Creating..." : "Create Game"}
+        </button>
+      </form>
+
+      <div className="game-list zen-card">
+        <h3>Review a Game</h3>
+        <p className="empty-list">Open a game saved as SGF, from here or any other Go program.</p>
+        <Link to="/sgf" className="zen-button">Open SGF</Link>
+      </div>
+
+      {STATUS_SECTIONS.map(section => {
+        const sectionGames = games.filter(g => g.status === section.status);
+        return (
+          <div key={section.status} className="game-list zen-card">
+            <h3>{section.title}</h3>
+            {sectionGames.length === 0 ? (
+              <p className="empty-list">{section.empty}</p>
+            ) : (
+              sectionGames.map(game => (
+                <Link key={game.id} to={gamePath(game)} className="game-list-item">
+                  <span className="game-list-players">
+                    {shortAddress(game.players.black)} vs {shortAddress(game.players.white)}
+                  </span>
+                  <span className="game-list-settings">
+                    {game.settings.boardSize}x{game.settings.boardSize} &middot; {RULE_SETS[game.settings.ruleSet].name}
+                    {game.settings.handicap > 0 && ` · H${game.settings.handicap}`} &middot; komi {game.settings.komi}
+                  </span>
+                  <span className="game-list-date">{new Date(game.createdAt * 1000).toLocaleDateString()}</span>
+                </Link>
+              ))
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Lobby;
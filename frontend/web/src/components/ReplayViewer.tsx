@@ -0,0 +1,105 @@
+// components/ReplayViewer.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { GameSettings, Move } from "../go/types";
+import { describeMove } from "../go/moves";
+import { RULE_SETS } from "../go/ruleSets";
+import { ILLEGAL_MOVE_MESSAGES, replayMoves } from "../go/rules";
+import { createStartingPosition } from "../go/settings";
+import { REPLAY_VIEW_LABELS, ReplayView, movesAt } from "../go/replay";
+
+const AUTOPLAY_INTERVAL_MS = 1000;
+
+interface ReplayViewerProps {
+  moves: Move[];
+  settings: GameSettings;
+}
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ moves, settings }) => {
+  // null follows the latest move while the game goes on.
+  const [step, setStep] = useState<number | null>(null);
+  const [view, setView] = useState<ReplayView>('as-seen');
+  const [playing, setPlaying] = useState(false);
+  const shown = Math.min(step ?? moves.length, moves.length);
+
+  const goTo = (n: number) => setStep(n >= moves.length ? null : Math.max(0, n));
+
+  useEffect(() => {
+    if (!playing) return;
+    if (shown >= moves.length) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => goTo(shown + 1), AUTOPLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, shown, moves.length]);
+
+  const shownMoves = useMemo(() => movesAt(moves, shown, view), [moves, shown, view]);
+  const { position, rejected } = useMemo(
+    () => replayMoves(shownMoves, createStartingPosition(settings), RULE_SETS[settings.ruleSet].koRule),
+    [shownMoves, settings]
+  );
+  const lastMove = shownMoves.length > 0 ? shownMoves[shownMoves.length - 1] : null;
+  const lastRejection = rejected.find(r => r.move === lastMove);
+  const isLastStone = (x: number, y: number) =>
+    !!lastMove && !lastRejection && lastMove.type !== 'blocked' && lastMove.x === x && lastMove.y === y;
+
+  const togglePlaying = () => {
+    if (!playing && shown >= moves.length) goTo(0);
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="replay-viewer zen-card">
+      <h3>Replay</h3>
+      <div className="go-board-container">
+        <div className="go-board replay-board">
+          {position.board.map((row, x) => (
+            <div key={`row-${x}`} className="board-row">
+              {row.map((stone, y) => (
+                <div key={`intersection-${x}-${y}`} className="intersection">
+                  {stone && <div className={`stone ${stone}${isLastStone(x, y) ? ' last' : ''}`} />}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="replay-controls">
+        <button className="zen-button" onClick={() => goTo(0)} disabled={shown === 0} title="First move">&laquo;</button>
+        <button className="zen-button" onClick={() => goTo(shown - 1)} disabled={shown === 0} title="Previous move">&lsaquo;</button>
+        <button className="zen-button" onClick={togglePlaying} disabled={moves.length === 0}>{playing ? "Pause" : "Play"}</button>
+        <button className="zen-button" onClick={() => goTo(shown + 1)} disabled={shown >= moves.length} title="Next move">&rsaquo;</button>
+        <button className="zen-button" onClick={() => goTo(moves.length)} disabled={shown >= moves.length} title="Last move">&raquo;</button>
+      </div>
+      <input
+        type="range"
+        className="replay-slider"
+        min={0}
+        max={moves.length}
+        value={shown}
+        onChange={e => { setPlaying(false); goTo(Number(e.target.value)); }}
+      />
+
+      <p className="replay-caption">
+        {lastMove ? (
+          <>
+            <span className="move-number">{shown}.</span>
+            {lastMove.player === 'black' ? "Black" : "White"}: {describeMove(lastMove)}
+            {lastRejection && ` (${ILLEGAL_MOVE_MESSAGES[lastRejection.reason]})`}
+          </>
+        ) : "Start of the game"}
+      </p>
+      <p className="replay-caption">
+        Captures: Black {position.captures.black} &middot; White {position.captures.white}
+      </p>
+      <select className="rules-select" value={view} onChange={e => setView(e.target.value as ReplayView)}>
+        {(Object.keys(REPLAY_VIEW_LABELS) as ReplayView[]).map(id => (
+          <option key={id} value={id}>{REPLAY_VIEW_LABELS[id]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,125 @@
+// components/SgfView.tsx
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { describeMove, isHiddenMove } from "../go/moves";
+import { RULE_SETS } from "../go/ruleSets";
+import { ILLEGAL_MOVE_MESSAGES, replayMoves } from "../go/rules";
+import { createStartingPosition } from "../go/settings";
+import { SgfError, SgfGame, parseSgf } from "../go/sgf";
+import ReplayViewer from "./ReplayViewer";
+
+const shortAddress = (address: string | null) =>
+  address && address.length > 12 ? `${address.substring(0, 6)}...${address.substring(address.length - 4)}` : address || "Unknown";
+
+// Opens an SGF file for review; nothing here touches the chain.
+const SgfView: React.FC = () => {
+  const [record, setRecord] = useState<SgfGame | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const openFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setRecord(parseSgf(await file.text()));
+      setFileName(file.name);
+      setError(null);
+    } catch (err: any) {
+      console.error("Reading SGF failed:", err);
+      setRecord(null);
+      setError(err instanceof SgfError ? err.message : "The file could not be read");
+    }
+  };
+
+  const header = (
+    <div className="game-header zen-card">
+      <Link to="/" className="back-link">&larr; Lobby</Link>
+      <div className="game-players">
+        {record ? (
+          <>
+            <span className="player black">Black: {shortAddress(record.players.black)}</span>
+            <span className="player white">White: {shortAddress(record.players.white)}</span>
+          </>
+        ) : (
+          <span>Review a game saved as SGF</span>
+        )}
+      </div>
+      <label className="zen-button sgf-upload">
+        Open SGF
+        <input type="file" accept=".sgf,application/x-go-sgf" onChange={openFile} />
+      </label>
+    </div>
+  );
+
+  if (!record) return (
+    <>
+      {header}
+      {error && <div className="game-not-found zen-card"><p>{error}</p></div>}
+    </>
+  );
+
+  const { settings, moves } = record;
+  const { rejected } = replayMoves(moves, createStartingPosition(settings), RULE_SETS[settings.ruleSet].koRule);
+  const illegal = new Map(rejected.map(({ move, reason }) => [move, ILLEGAL_MOVE_MESSAGES[reason]]));
+
+  return (
+    <>
+      {header}
+
+      <ReplayViewer moves={moves} settings={settings} />
+
+      <div className="game-stats zen-card">
+        <div className="stat-item">
+          <div className="stat-label">File</div>
+          <div className="stat-value">{fileName}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Rules</div>
+          <div className="stat-value">{RULE_SETS[settings.ruleSet].name}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Board</div>
+          <div className="stat-value">{settings.boardSize}x{settings.boardSize}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Handicap</div>
+          <div className="stat-value">{settings.handicap || "None"}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Komi</div>
+          <div className="stat-value">{settings.komi}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Result</div>
+          <div className="stat-value">{record.result || "Unfinished"}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Hidden Moves</div>
+          <div className="stat-value">{moves.filter(isHiddenMove).length}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Total Moves</div>
+          <div className="stat-value">{moves.length}</div>
+        </div>
+      </div>
+
+      <div className="move-history">
+        <h3>Move History</h3>
+        <div className="history-list">
+          {moves.map((move, index) => (
+            <div key={index} className={`history-item ${move.player} ${move.type}`}>
+              <span className="move-number">{index + 1}.</span>
+              <span className="move-desc">
+                {describeMove(move)}
+                {move.revealedAt !== undefined && ` after move ${move.revealedAt}`}
+                {illegal.has(move) && ` (${illegal.get(move)})`}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default SgfView;
@@ -0,0 +1,181 @@
+// components/SpectatorView.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { getContractReadOnly } from "../contract";
+import { GameState, loadGameState } from "../gameState";
+import { Player } from "../go/types";
+import { describeMove, isUnrevealedHiddenMove } from "../go/moves";
+import { RULE_SETS } from "../go/ruleSets";
+import { countStones } from "../go/rules";
+import { firstPlayer } from "../go/settings";
+import { describeResult, pointKey } from "../go/scoring";
+import { DEFAULT_TIME_CONTROL, clockOwner, describeTimeControl } from "../go/clock";
+import { watchGame } from "../sync";
+import ReplayViewer from "./ReplayViewer";
+import GameClock, { useClocks } from "./GameClock";
+
+const shortAddress = (address: string | null) =>
+  address ? `${address.substring(0, 6)}...${address.substring(address.length - 4)}` : "Open seat";
+
+// Read-only view of a game for anyone without a seat. It needs no wallet and only shows what is public:
+// hidden stones are counted, never located, until they are revealed.
+const SpectatorView: React.FC = () => {
+  const { gameId = '' } = useParams();
+  const [loading, setLoading] = useState(true);
+  const [state, setState] = useState<GameState | null>(null);
+  const hiddenGame = useRef<string | null>(null);
+  const hiddenBatches = useRef<Set<number>>(new Set());
+  const toMove = state && state.game.status === 'running' && !state.result ? clockOwner(state.moves, firstPlayer(state.game.settings)) : null;
+  const clocks = useClocks(state ? state.game.settings.timeControl : DEFAULT_TIME_CONTROL, state ? state.startTime : null, state ? state.moves : [], toMove);
+
+  useEffect(() => {
+    setLoading(true);
+    setState(null);
+    hiddenGame.current = null;
+    hiddenBatches.current = new Set();
+    load().finally(() => setLoading(false));
+    return watchGame(gameId, {
+      onChange: load,
+      watchesBatch: batchId => hiddenBatches.current.has(batchId),
+      watchesHiddenGame: key => key === hiddenGame.current
+    });
+  }, [gameId]);
+
+  const load = async () => {
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      if (!(await contract.isAvailable())) return;
+      const loaded = await loadGameState(contract, gameId);
+      hiddenGame.current = loaded && loaded.hiddenGameKey;
+      hiddenBatches.current = new Set(loaded ? loaded.moves.filter(m => m.encrypted).map(m => m.encrypted!.batchId) : []);
+      setState(loaded);
+    } catch (e) {
+      console.error("Error loading game:", e);
+    }
+  };
+
+  if (loading) return (
+    <div className="loading-screen">
+      <div className="go-spinner"></div>
+      <p>Loading game...</p>
+    </div>
+  );
+
+  if (!state) return (
+    <div className="game-not-found zen-card">
+      <h2>Game not found</h2>
+      <p>No game with id {gameId} exists on this contract.</p>
+      <Link to="/" className="zen-button">Back to lobby</Link>
+    </div>
+  );
+
+  const { game, moves, position, result } = state;
+  const { settings } = game;
+  const stones = countStones(position.board);
+  const unrevealed = (player: Player) => moves.filter(m => isUnrevealedHiddenMove(m) && m.player === player).length;
+  const blockedKeys = new Set(moves.filter(m => m.type === 'blocked').map(pointKey));
+  const deadStoneKeys = new Set((result?.reason === 'score' ? result.deadStones : []).map(pointKey));
+
+  const renderPlayer = (player: Player) => (
+    <div className={`player-info ${player}`}>
+      <div className={`stone-indicator ${player}`}></div>
+      <div className="player-stats">
+        <span className="player-name">{player === 'black' ? "Black" : "White"}</span>
+        <span className="stone-count">{stones[player]} stones</span>
+        <span className="stone-count">{position.captures[player]} captured</span>
+        <span className="stone-count">{unrevealed(player)} hidden unrevealed</span>
+        {clocks && <GameClock control={settings.timeControl} clock={clocks.clocks[player]} running={clocks.running === player} />}
+      </div>
+      {toMove === player && <div className="current-turn">To move</div>}
+    </div>
+  );
+
+  return (
+    <>
+      <div className="game-header zen-card">
+        <Link to="/" className="back-link">&larr; Lobby</Link>
+        <div className="game-players">
+          <span className="player black">Black: {shortAddress(game.players.black)}</span>
+          <span className="player white">White: {shortAddress(game.players.white)}</span>
+        </div>
+        <span className={`game-status ${game.status}`}>{game.status}</span>
+        <span className="spectator-badge">Spectating</span>
+      </div>
+
+      <div className="game-container">
+        {renderPlayer('black')}
+
+        <div className="go-board-container">
+          <div className="go-board spectator-board">
+            {position.board.map((row, x) => (
+              <div key={`row-${x}`} className="board-row">
+                {row.map((stone, y) => (
+                  <div key={`intersection-${x}-${y}`} className="intersection">
+                    {stone ? (
+                      <div className={`stone ${stone}${deadStoneKeys.has(pointKey({ x, y })) ? ' dead' : ''}`} />
+                    ) : blockedKeys.has(pointKey({ x, y })) && (
+                      <div className="hidden-marker" title="Hidden stone" />
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {renderPlayer('white')}
+      </div>
+
+      {result && (
+        <div className="score-panel zen-card">
+          <h3>Game Over</h3>
+          <p className="score-result">{describeResult(result)}</p>
+        </div>
+      )}
+
+      <div className="game-stats zen-card">
+        <div className="stat-item">
+          <div className="stat-label">Rules</div>
+          <div className="stat-value">{RULE_SETS[settings.ruleSet].name}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Board</div>
+          <div className="stat-value">{settings.boardSize}x{settings.boardSize}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Handicap</div>
+          <div className="stat-value">{settings.handicap || "None"}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Komi</div>
+          <div className="stat-value">{settings.komi}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Time Control</div>
+          <div className="stat-value">{describeTimeControl(settings.timeControl)}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-label">Total Moves</div>
+          <div className="stat-value">{moves.length}</div>
+        </div>
+      </div>
+
+      <ReplayViewer moves={moves} settings={settings} />
+
+      <div className="move-history">
+        <h3>Move History</h3>
+        <div className="history-list">
+          {moves.map((move, index) => (
+            <div key={index} className={`history-item ${move.player} ${move.type}`}>
+              <span className="move-number">{index + 1}.</span>
+              <span className="move-desc">{describeMove(move)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default SpectatorView;
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { network } from '../network';
 
 interface WalletInfo {
   name: string;
@@ -355,8 +356,8 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Auto-switch to the network the app is configured for
+      await switchNetwork(wallet.provider);
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -365,11 +366,12 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
+  const switchNetwork = async (provider: any) => {
+    const chainId = `0x${network.chain.id.toString(16)}`;
     try {
       await provider.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
+        params: [{ chainId }],
       });
     } catch (switchError: any) {
       if (switchError.code === 4902) {
@@ -377,22 +379,17 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           await provider.request({
             method: 'wallet_addEthereumChain',
             params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
+              chainId,
+              chainName: network.chain.name,
+              nativeCurrency: network.chain.nativeCurrency,
+              rpcUrls: network.rpcUrls,
+              blockExplorerUrls: network.chain.blockExplorers
+                ? [network.chain.blockExplorers.default.url]
+                : undefined
             }]
           });
         } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
+          console.error(`Error adding ${network.chain.name} network:`, addError);
           // Don't throw, let the main app handle it
         }
       }
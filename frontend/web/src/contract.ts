@@ -2,11 +2,17 @@
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { network } from "./network";
+import { GoHiddenMoveClient } from "../../../src/client/GoHiddenMoveClient";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const config = {
+  ...configJson,
+  contractAddress: network.contractAddress,
+  hiddenMoveAddress: network.hiddenMoveAddress
+};
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+export const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
   } catch (e) {
@@ -18,20 +24,12 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
+export const getReadProvider = async () => {
+  for (const url of network.rpcUrls) {
     try {
       const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
+        name: network.chain.name,
+        chainId: network.chain.id
       });
       
       const blockNumber = await Promise.race([
@@ -51,7 +49,7 @@ const getTestnetProvider = async () => {
 
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
+    const provider = await getReadProvider();
     const contract = new ethers.Contract(config.contractAddress, ABI, provider);
     
     const code = await retry(() => provider.getCode(config.contractAddress));
@@ -66,6 +64,17 @@ export async function getContractReadOnly() {
   }
 }
 
+export async function getHiddenMoveClientReadOnly() {
+  if (!config.hiddenMoveAddress) return null;
+  try {
+    const provider = await getReadProvider();
+    return new GoHiddenMoveClient(config.hiddenMoveAddress, provider);
+  } catch (error) {
+    console.error("Failed to create read-only hidden move client:", error);
+    return null;
+  }
+}
+
 export async function getContractWithSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
@@ -81,6 +90,19 @@ export async function getContractWithSigner() {
   }
 }
 
-export function normAddr(a: string) { 
-  return a ? a.toLowerCase() : a; 
-}
\ No newline at end of file
+export async function getHiddenMoveClientWithSigner() {
+  if (!config.hiddenMoveAddress) {
+    throw new Error("GoFHEHiddenMoveFHE is not deployed");
+  }
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return new GoHiddenMoveClient(config.hiddenMoveAddress, signer);
+  } catch (error) {
+    console.error("Failed to create hidden move client with signer:", error);
+    throw error;
+  }
+}
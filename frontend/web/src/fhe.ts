@@ -0,0 +1,437 @@
+// fhe.ts
+// Zama relayer SDK glue. The SDK loads its WASM on first use, so one instance is created lazily and shared.
+// On the localhost profile the same interface is served by the fhevm mock instead.
+import { FhevmInstance, SepoliaConfig, createInstance, initSDK } from "@zama-fhe/relayer-sdk/bundle";
+import { ethers } from "ethers";
+import {
+  config,
+  getHiddenMoveClientReadOnly,
+  getHiddenMoveClientWithSigner,
+  getReadProvider,
+  retry
+} from "./contract";
+import { Game, normAddr, seatOf } from "./games";
+import { network } from "./network";
+import { DecryptedMove, HiddenStoneRecord, PlacementCheckRecord } from "../../../src/client/GoHiddenMoveClient";
+import { firstPlayer } from "./go/settings";
+import { EncryptedMoveRef, HiddenMovePolicy, Move, PlacementCheckRef, Player, Point } from "./go/types";
+import { StoneReveal } from "./go/moves";
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+// The verifying contracts @fhevm/hardhat-plugin deploys its mock gateway with.
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+// A local hardhat node runs the fhevm mock and reports its own ACL, KMS and input verifier addresses.
+const createMockInstance = async (): Promise<FhevmInstance> => {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = await getReadProvider();
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: network.chain.id,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS
+  });
+};
+
+export const getFhevmInstance = (): Promise<FhevmInstance> => {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      if (network.fheMode === 'mock') return createMockInstance();
+      await initSDK();
+      // Spectators may have no wallet; public decryption only needs an RPC endpoint.
+      return createInstance({ ...SepoliaConfig, network: (window as any).ethereum ?? network.rpcUrls[0] });
+    })();
+    instancePromise.catch(() => { instancePromise = null; });
+  }
+  return instancePromise;
+};
+
+// GoFHEHiddenMoveFHE labels games by bytes32.
+export const hiddenGameLabel = (gameId: string) => ethers.id(gameId);
+
+// Deployments without GoFHEHiddenMoveFHE still play ordinary Go.
+export const hiddenMovesEnabled = () => !!config.hiddenMoveAddress;
+
+// The player who takes the second seat opens the game in the contract, which keys it by their address
+// and the game's label. Null while that seat is open.
+export const hiddenGameKey = (game: Game): string | null => {
+  const opener = (['black', 'white'] as Player[])
+    .map(colour => game.players[colour])
+    .find(player => player && normAddr(player) !== normAddr(game.creator));
+  if (!opener) return null;
+  return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(['address', 'bytes32'], [opener, hiddenGameLabel(game.id)]));
+};
+
+// Seats both players in the contract with the board size and hidden-move policy it enforces. Called by the player
+// about to take the free seat, before the seat is written to the game record.
+export const openHiddenGame = async (game: Game) => {
+  const client = await getHiddenMoveClientWithSigner();
+  const asBlack = !game.players.black;
+  const whiteFirst = firstPlayer(game.settings) === 'white';
+  const { boardSize, hiddenMoves } = game.settings;
+  await client.openGame(hiddenGameLabel(game.id), game.creator, asBlack, whiteFirst, boardSize, hiddenMoves);
+};
+
+// The key of the contract game the game record plays hidden moves in. A game the second seat never
+// opened, or opened with seats, turn order, board size or a policy that disagree with the record, is played as
+// ordinary Go: null then.
+export const loadHiddenGame = async (game: Game): Promise<string | null> => {
+  const key = hiddenGameKey(game);
+  const client = key && await getHiddenMoveClientReadOnly();
+  if (!key || !client) return null;
+
+  const info = await client.gameInfo(key);
+  if (!info.registered) return null;
+  const policy = game.settings.hiddenMoves;
+  const agrees = normAddr(info.black) === normAddr(game.players.black || '')
+    && normAddr(info.white) === normAddr(game.players.white || '')
+    && info.whiteMovesFirst === (firstPlayer(game.settings) === 'white')
+    && info.boardSize === game.settings.boardSize
+    && (Object.keys(policy) as Array<keyof HiddenMovePolicy>).every(field => info.policy[field] === policy[field]);
+  if (!agrees) console.warn(`The contract's record of game ${game.id} disagrees with the game record; hidden moves are off`);
+  return agrees ? key : null;
+};
+
+// Encrypts the coordinates and reveal step as euint32 inputs and stores them in GoFHEHiddenMoveFHE,
+// which counts the hidden stone as the player's move.
+export const submitHiddenMove = async (
+  gameKey: string,
+  player: string,
+  x: number,
+  y: number,
+  revealStep: number
+): Promise<EncryptedMoveRef> => {
+  const [instance, client] = await Promise.all([getFhevmInstance(), getHiddenMoveClientWithSigner()]);
+
+  const input = instance.createEncryptedInput(config.hiddenMoveAddress, player);
+  input.add32(x).add32(y).add32(revealStep);
+  const submission = await client.submitHiddenMove(gameKey, await input.encrypt());
+  return {
+    stoneIndex: submission.stoneIndex,
+    batchId: submission.batchId,
+    index: submission.index,
+    x: submission.xCt,
+    y: submission.yCt,
+    revealStep: submission.revealStepCt
+  };
+};
+
+// Counts a pass on-chain; the contract then decrypts any hidden stones that reached their reveal step.
+export const recordPass = async (gameKey: string) => {
+  const client = await getHiddenMoveClientWithSigner();
+  await client.passTurn(gameKey);
+};
+
+// The contract counts moves too, so an undo has to be agreed there as well: the requester asks before
+// the offer is stored, and the opponent accepts before storing the answer.
+export const requestTakeback = async (gameKey: string, count: number) => {
+  const client = await getHiddenMoveClientWithSigner();
+  await client.requestTakeback(gameKey, count);
+};
+
+export const acceptTakeback = async (gameKey: string, count: number) => {
+  const client = await getHiddenMoveClientWithSigner();
+  await client.acceptTakeback(gameKey, count);
+};
+
+// Stones the contract has made public, on schedule or through a decryption, by stone index. The contract
+// game is opened after the game record, so the search starts at the record's block.
+export const fetchStoneReveals = async (gameKey: string, fromBlock: number): Promise<Map<number, StoneReveal>> => {
+  const reveals = new Map<number, StoneReveal>();
+  const client = await getHiddenMoveClientReadOnly();
+  if (!client) return reveals;
+
+  for (const reveal of await client.hiddenStoneReveals(gameKey, fromBlock)) {
+    reveals.set(reveal.stoneIndex, { x: reveal.x, y: reveal.y, revealedAt: reveal.moveCount });
+  }
+  return reveals;
+};
+
+// Asks the oracle to decrypt just these moves rather than their whole batch; one request per batch.
+export const requestMoveDecryption = async (refs: EncryptedMoveRef[]): Promise<bigint[]> => {
+  const client = await getHiddenMoveClientWithSigner();
+  const batches = new Map<number, number[]>();
+  for (const ref of refs) batches.set(ref.batchId, [...(batches.get(ref.batchId) || []), ref.index]);
+
+  const requestIds: bigint[] = [];
+  for (const [batchId, indices] of batches) requestIds.push(await client.requestMoveDecryption(batchId, indices));
+  return requestIds;
+};
+
+// Published cleartexts in the order of refs; null where the oracle has not decrypted the move (yet).
+export const fetchDecryptedMoves = async (refs: EncryptedMoveRef[]): Promise<Array<DecryptedMove | null>> => {
+  const client = await getHiddenMoveClientReadOnly();
+  if (!client) return refs.map(() => null);
+  return Promise.all(refs.map(ref => client.decryptedMove(ref.batchId, ref.index)));
+};
+
+// Oracle cleartexts take precedence over the coordinates a player wrote when revealing by hand. Every
+// published decryption also retires its stone, so when it became public comes from the contract's
+// reveal, applied before this.
+export const applyDecryptedMoves = async (moves: Move[]): Promise<Move[]> => {
+  const hidden = moves.filter(m => m.type === 'hidden' && m.encrypted);
+  const decrypted = await fetchDecryptedMoves(hidden.map(m => m.encrypted!));
+  const published = new Map(hidden.map((m, i) => [m, decrypted[i]]));
+  return moves.map(m => {
+    const point = published.get(m);
+    return point ? { ...m, x: point.x, y: point.y, revealed: true } : m;
+  });
+};
+
+// The coprocessor computes flags asynchronously, so the relayer may not serve them right after the tx.
+export const publicDecryptFlags = async (handles: string[]): Promise<Record<string, boolean>> => {
+  const instance = await getFhevmInstance();
+  const results = await retry(() => instance.publicDecrypt(handles), 4, 2000);
+  const flags: Record<string, boolean> = {};
+  for (const handle of handles) flags[handle] = results[handle] === true || BigInt(results[handle] as bigint | string) !== 0n;
+  return flags;
+};
+
+// Plays a visible stone through the contract, which counts it as the move and checks it against the
+// opponent's hidden stones in the same transaction.
+export const placeStone = async (gameKey: string, x: number, y: number): Promise<{ check: PlacementCheckRef; blocked: boolean }> => {
+  const client = await getHiddenMoveClientWithSigner();
+  const { checkId, blockedCt } = await client.placeStone(gameKey, x, y);
+  const check = { checkId, blocked: blockedCt };
+  const flags = await publicDecryptFlags([check.blocked]);
+  return { check, blocked: flags[check.blocked] };
+};
+
+// Placement checks, hidden stone handles and decrypted flags never change once written, so each is read
+// once per session rather than on every reload.
+const placementChecks = new Map<number, PlacementCheckRecord>();
+const hiddenStones = new Map<string, HiddenStoneRecord>();
+const blockedFlags = new Map<string, boolean>();
+
+// The contract records every move as it is played, so the move log has to follow it: move n of the game
+// must be record n, by the same player and of the same kind. A stone must carry the placement check made
+// for that move, for its point, with a public flag matching the claimed outcome; a hidden move must point
+// at the stone the contract stored for it. Moves failing this are dropped; if the relayer is down the
+// flags are taken on trust. A game without a contract game has nothing to back hidden moves, so those
+// are dropped and the rest is taken as it is.
+export const verifyRecordedMoves = async (gameKey: string | null, moves: Move[]): Promise<{ moves: Move[]; rejected: Move[] }> => {
+  if (!gameKey) return { moves: moves.filter(m => m.type !== 'hidden'), rejected: moves.filter(m => m.type === 'hidden') };
+  const client = await getHiddenMoveClientReadOnly();
+  const records = client ? await client.moveRecords(gameKey) : [];
+
+  // Only what no earlier load has read, in parallel.
+  const stoneKey = (stoneIndex: number) => `${gameKey}_${stoneIndex}`;
+  const missingChecks = records.filter(r => r.kind === 'stone' && !placementChecks.has(r.ref)).map(r => r.ref);
+  const missingStones = records.filter(r => r.kind === 'hidden' && !hiddenStones.has(stoneKey(r.ref))).map(r => r.ref);
+  await Promise.all([
+    ...missingChecks.map(async checkId => placementChecks.set(checkId, await client!.placementCheck(checkId))),
+    ...missingStones.map(async stoneIndex => hiddenStones.set(stoneKey(stoneIndex), await client!.hiddenStone(gameKey, stoneIndex)))
+  ]);
+  const checks = new Map<number, PlacementCheckRecord>();
+  const stones = new Map<number, HiddenStoneRecord>();
+  for (const [index, record] of records.entries()) {
+    if (record.kind === 'stone') checks.set(index, placementChecks.get(record.ref)!);
+    if (record.kind === 'hidden') stones.set(index, hiddenStones.get(stoneKey(record.ref))!);
+  }
+
+  const undecided = [...checks.values()].map(check => check.blocked).filter(handle => !blockedFlags.has(handle));
+  let flagsKnown = true;
+  if (undecided.length > 0) {
+    try {
+      const decrypted = await publicDecryptFlags(undecided);
+      for (const handle of undecided) blockedFlags.set(handle, decrypted[handle]);
+    } catch (e) {
+      console.warn("Could not publicly decrypt placement checks:", e);
+      flagsKnown = false;
+    }
+  }
+
+  const matchesRecord = (move: Move, index: number): boolean => {
+    const record = records[index];
+    if (!record || normAddr(record.player) !== move.signer) return false;
+    switch (move.type) {
+      case 'pass':
+        return record.kind === 'pass';
+      case 'place':
+      case 'blocked': {
+        const check = checks.get(index);
+        return record.kind === 'stone'
+          && !!check && !!move.check
+          && move.check.checkId === record.ref
+          && move.check.blocked === check.blocked
+          && check.moveIndex === index
+          && check.x === move.x
+          && check.y === move.y
+          && (!flagsKnown || blockedFlags.get(check.blocked) === (move.type === 'blocked'));
+      }
+      case 'hidden': {
+        const stone = stones.get(index);
+        const ref = move.encrypted;
+        return record.kind === 'hidden'
+          && !!stone && !!ref
+          && ref.stoneIndex === record.ref
+          && ref.batchId === stone.batchId
+          && ref.index === stone.index
+          && ref.x === stone.xCt
+          && ref.y === stone.yCt
+          && ref.revealStep === stone.revealStepCt;
+      }
+      default:
+        return true;
+    }
+  };
+
+  const accepted: Move[] = [];
+  const rejected: Move[] = [];
+  for (const move of moves) {
+    if (matchesRecord(move, accepted.length)) accepted.push(move);
+    else rejected.push(move);
+  }
+  return { moves: accepted, rejected };
+};
+
+// The log entry is written after the contract call, so a move can be counted on-chain and still be
+// missing from the log when the write failed or was rejected in the wallet. Rebuilds record n from the
+// contract so its player can store it; null when there is no such record.
+export const recordedMove = async (game: Game, gameKey: string, moveIndex: number): Promise<Move | null> => {
+  const client = await getHiddenMoveClientReadOnly();
+  if (!client) return null;
+  const record = (await client.moveRecords(gameKey))[moveIndex];
+  const player = record && seatOf(game, record.player);
+  if (!player) return null;
+
+  const move: Move = {
+    type: 'pass',
+    x: -1,
+    y: -1,
+    player,
+    signer: normAddr(record.player),
+    timestamp: Math.floor(Date.now() / 1000),
+    revealed: false
+  };
+  switch (record.kind) {
+    case 'pass':
+      return move;
+    case 'stone': {
+      const check = await client.placementCheck(record.ref);
+      const flags = await publicDecryptFlags([check.blocked]);
+      return {
+        ...move,
+        type: flags[check.blocked] ? 'blocked' : 'place',
+        x: check.x,
+        y: check.y,
+        check: { checkId: record.ref, blocked: check.blocked }
+      };
+    }
+    case 'hidden': {
+      const stone = await client.hiddenStone(gameKey, record.ref);
+      return {
+        ...move,
+        type: 'hidden',
+        encrypted: {
+          stoneIndex: record.ref,
+          batchId: stone.batchId,
+          index: stone.index,
+          x: stone.xCt,
+          y: stone.yCt,
+          revealStep: stone.revealStepCt
+        }
+      };
+    }
+  }
+};
+
+// How long a user-decryption signature stays valid; the wallet is only asked again once it expires.
+export const DECRYPTION_DURATION_DAYS = 30;
+
+interface DecryptionSession {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+const sessionKey = (user: string) => `go_decrypt_session_${normAddr(user)}_${normAddr(config.hiddenMoveAddress)}`;
+
+const isSessionValid = (session: DecryptionSession) =>
+  Date.now() / 1000 < session.startTimestamp + session.durationDays * 24 * 60 * 60;
+
+const loadSession = (user: string): DecryptionSession | null => {
+  try {
+    const stored = localStorage.getItem(sessionKey(user));
+    const session: DecryptionSession | null = stored ? JSON.parse(stored) : null;
+    return session && isSessionValid(session) ? session : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// A fresh keypair plus the EIP-712 authorisation that lets the relayer re-encrypt to it.
+const createSession = async (instance: FhevmInstance, signer: ethers.Signer): Promise<DecryptionSession> => {
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(publicKey, [config.hiddenMoveAddress], startTimestamp, DECRYPTION_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  return { publicKey, privateKey, signature, startTimestamp, durationDays: DECRYPTION_DURATION_DAYS };
+};
+
+// Decrypts handles the connected wallet has been granted access to in GoFHEHiddenMoveFHE.
+export const userDecrypt = async (handles: string[]): Promise<Record<string, bigint>> => {
+  const instance = await getFhevmInstance();
+  const signer = await new ethers.BrowserProvider((window as any).ethereum).getSigner();
+  const user = await signer.getAddress();
+
+  let session = loadSession(user);
+  if (!session) {
+    session = await createSession(instance, signer);
+    localStorage.setItem(sessionKey(user), JSON.stringify(session));
+  }
+
+  const results = await instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress: config.hiddenMoveAddress })),
+    session.privateKey,
+    session.publicKey,
+    session.signature.replace('0x', ''),
+    [config.hiddenMoveAddress],
+    user,
+    session.startTimestamp,
+    session.durationDays
+  );
+  const cleartexts: Record<string, bigint> = {};
+  for (const handle of handles) cleartexts[handle] = BigInt(results[handle] as bigint | string);
+  return cleartexts;
+};
+
+// Decrypted coordinates of the player's own hidden moves are kept locally, keyed by the x handle.
+const hiddenCoordsKey = (ref: EncryptedMoveRef) => `go_hidden_${ref.x}`;
+
+export const rememberHiddenCoords = (ref: EncryptedMoveRef, point: Point) => {
+  localStorage.setItem(hiddenCoordsKey(ref), JSON.stringify(point));
+};
+
+export const recallHiddenCoords = (ref: EncryptedMoveRef): Point | null => {
+  try {
+    const stored = localStorage.getItem(hiddenCoordsKey(ref));
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Coordinates of one of the player's own hidden moves: from this browser if it placed the stone,
+// otherwise through the relayer.
+export const decryptHiddenCoords = async (ref: EncryptedMoveRef): Promise<Point> => {
+  const remembered = recallHiddenCoords(ref);
+  if (remembered) return remembered;
+
+  const cleartexts = await userDecrypt([ref.x, ref.y]);
+  const point = { x: Number(cleartexts[ref.x]), y: Number(cleartexts[ref.y]) };
+  rememberHiddenCoords(ref, point);
+  return point;
+};
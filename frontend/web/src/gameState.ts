@@ -0,0 +1,198 @@
+// gameState.ts
+// Everything a game page shows, rebuilt from the chain with public reads only: the trusted game record,
+// the verified move log with reveals applied, the position it leads to, dead-stone marks and the result.
+import { ethers } from "ethers";
+import {
+  Game,
+  MOVE_REJECTION_MESSAGES,
+  fetchBlockTimes,
+  fetchGameWrites,
+  gameKeys,
+  loadGame,
+  readMoveLog,
+  readSeatJson,
+  resolveGame,
+  seatWrites,
+  verifyMoves
+} from "./games";
+import {
+  applyDecryptedMoves,
+  fetchStoneReveals,
+  hiddenMovesEnabled,
+  loadHiddenGame,
+  recordedMove,
+  verifyRecordedMoves
+} from "./fhe";
+import { Move, Player, Point, opponentOf } from "./go/types";
+import { clockOwner, flaggedPlayer, runClocks } from "./go/clock";
+import { Offer, acceptedTakebacks, hasAcceptedDraw, offerDomain, readOffers } from "./negotiation";
+import { REVEAL_CONFLICT_MESSAGES, StoneReveal, applyStoneReveals, isResigned } from "./go/moves";
+import { RULE_SETS } from "./go/ruleSets";
+import { ILLEGAL_MOVE_MESSAGES, Position, isPlayFinished, replayMoves } from "./go/rules";
+import { createStartingPosition, firstPlayer } from "./go/settings";
+import { GameResult, samePoints, scorePosition } from "./go/scoring";
+
+export interface GameState {
+  game: Game;
+  moves: Move[];
+  position: Position;
+  deadStoneMarks: Record<Player, Point[] | null>;
+  result: GameResult | null;
+  // Where the next move goes in the game's move log.
+  nextMoveIndex: number;
+  // The GoFHEHiddenMoveFHE game its hidden moves are played in; null when the game has none it agrees
+  // with, and is played without hidden moves.
+  hiddenGameKey: string | null;
+  // A move the contract counted after the last one in the log, which its player still has to store.
+  unstoredMove: Move | null;
+  // Timestamp of the block the game started in; null while a seat is open or the game has no clock.
+  startTime: number | null;
+  offers: Offer[];
+  // Where the next offer goes in the game's offer log.
+  nextOfferIndex: number;
+}
+
+type ResultRejection = 'unreadable' | 'no-resignation' | 'play-not-finished' | 'marks-differ' | 'score-differs' | 'not-out-of-time' | 'no-draw-agreed';
+
+const RESULT_REJECTION_MESSAGES: Record<ResultRejection, string> = {
+  'unreadable': "Result record could not be read",
+  'no-resignation': "The losing player has not resigned",
+  'play-not-finished': "Play has not ended with two passes",
+  'marks-differ': "The dead stones are not the ones both players submitted",
+  'score-differs': "The score does not follow from the final position",
+  'not-out-of-time': "The clocks do not show the opponent out of time",
+  'no-draw-agreed': "No draw offer was accepted"
+};
+
+// Everything a result is checked against.
+interface ResultEvidence {
+  moves: Move[];
+  position: Position;
+  deadStoneMarks: Record<Player, Point[] | null>;
+  offers: Offer[];
+  startTime: number | null;
+  // Timestamp of the block the result was written in.
+  claimTime: number | undefined;
+}
+
+// A timeout claim stands if the claimed loser was on move and out of time in the block the claim was
+// written in, going by the block times of the moves before it.
+const upholdsTimeout = (game: Game, moves: Move[], startTime: number | null, claimTime: number | undefined, winner: Player) => {
+  if (startTime === null || claimTime === undefined) return false;
+  const played = moves.filter(m => m.blockTime !== undefined && m.blockTime <= claimTime);
+  const clocks = runClocks(game.settings.timeControl, startTime, played, clockOwner(played, firstPlayer(game.settings)), claimTime);
+  return flaggedPlayer(clocks) === opponentOf(winner);
+}
+
+// Either seat may write the result, so every reason is checked against what both players did: a
+// resignation needs the loser's resign move, a score two passes and matching dead-stone marks from both
+// seats, a timeout the clocks and a draw an accepted offer.
+const rejectResult = (game: Game, result: GameResult, evidence: ResultEvidence): ResultRejection | null => {
+  const { moves, position, deadStoneMarks: marks } = evidence;
+  switch (result?.reason) {
+    case 'resignation':
+      return moves.some(m => m.type === 'resign' && m.player === opponentOf(result.winner)) ? null : 'no-resignation';
+    case 'score': {
+      if (!isPlayFinished(moves)) return 'play-not-finished';
+      if (!marks.black || !marks.white || !samePoints(marks.black, marks.white) || !samePoints(marks.black, result.deadStones || [])) {
+        return 'marks-differ';
+      }
+      const scoring = RULE_SETS[game.settings.ruleSet].scoring;
+      const score = scorePosition(position, marks.black, scoring, game.settings.komi);
+      const matches = score.winner === result.winner && score.black === result.black && score.white === result.white
+        && result.scoring === scoring && result.komi === game.settings.komi;
+      return matches ? null : 'score-differs';
+    }
+    case 'timeout':
+      return upholdsTimeout(game, moves, evidence.startTime, evidence.claimTime, result.winner) ? null : 'not-out-of-time';
+    case 'agreement':
+      return hasAcceptedDraw(evidence.offers) ? null : 'no-draw-agreed';
+    default:
+      return 'unreadable';
+  }
+};
+
+// Null when no game record exists under the id. Moves that fail verification are logged and left out.
+export const loadGameState = async (contract: ethers.Contract, gameId: string): Promise<GameState | null> => {
+  const claimed = await loadGame(contract, gameId);
+  if (!claimed) return null;
+  const history = await fetchGameWrites(contract, gameId, claimed.createdBlock);
+  const game = resolveGame(gameId, history);
+  if (!game) return null;
+  const { settings } = game;
+  const writes = seatWrites(game, history);
+
+  const deadStoneMarks: Record<Player, Point[] | null> = {
+    black: readSeatJson(game, writes, gameKeys.deadStones(gameId, 'black'), 'black'),
+    white: readSeatJson(game, writes, gameKeys.deadStones(gameId, 'white'), 'white')
+  };
+
+  const log = readMoveLog(game, history, writes);
+  const { offers, nextIndex: nextOfferIndex } = readOffers(game, history, await offerDomain(contract));
+  const { moves: signedMoves, rejected: unverified, conflicts } = verifyMoves(game, log, acceptedTakebacks(offers));
+  for (const { key, reason } of unverified) {
+    console.warn(`Ignoring move ${key}: ${MOVE_REJECTION_MESSAGES[reason]}`);
+  }
+  for (const { key, reason } of conflicts) {
+    console.warn(`Ignoring reveal of ${key}: ${REVEAL_CONFLICT_MESSAGES[reason]}`);
+  }
+  const hiddenGameKey = hiddenMovesEnabled() ? await loadHiddenGame(game) : null;
+  const { moves: checkedMoves, rejected: unchecked } = await verifyRecordedMoves(hiddenGameKey, signedMoves);
+  for (const move of unchecked) {
+    console.warn(`Ignoring ${move.player} ${move.type} move ${move.storageKey}: it does not match the contract's record of the game`);
+  }
+  const reveals = hiddenGameKey ? await fetchStoneReveals(hiddenGameKey, game.createdBlock) : new Map<number, StoneReveal>();
+  const revealedMoves = applyStoneReveals(checkedMoves, reveals);
+  const decryptedMoves = hiddenGameKey ? await applyDecryptedMoves(revealedMoves) : revealedMoves;
+
+  const claimedResult: GameResult | null = readSeatJson(game, writes, gameKeys.result(gameId));
+  let moves = decryptedMoves;
+  let startTime: number | null = null;
+  let claimTime: number | undefined;
+  if (settings.timeControl.system !== 'none' || claimedResult?.reason === 'timeout') {
+    const moveBlocks = new Map(log.entries.map(entry => [entry.key, entry.blockNumber]));
+    const resultWrite = writes.get(gameKeys.result(gameId));
+    const times = await fetchBlockTimes(contract, [
+      ...moveBlocks.values(),
+      ...(game.startedBlock !== undefined ? [game.startedBlock] : []),
+      ...(resultWrite ? [resultWrite.blockNumber] : [])
+    ]);
+    moves = decryptedMoves.map(m => ({ ...m, blockTime: times.get(moveBlocks.get(m.storageKey!)!) }));
+    startTime = game.startedBlock !== undefined ? times.get(game.startedBlock) ?? null : null;
+    claimTime = resultWrite && times.get(resultWrite.blockNumber);
+  }
+
+  const { position, rejected } = replayMoves(moves, createStartingPosition(settings), RULE_SETS[settings.ruleSet].koRule);
+  for (const { move, reason } of rejected) {
+    console.warn(`Ignoring illegal move at (${move.x},${move.y}): ${ILLEGAL_MOVE_MESSAGES[reason]}`);
+  }
+
+  let result = claimedResult;
+  const rejection = claimedResult && rejectResult(game, claimedResult, { moves, position, deadStoneMarks, offers, startTime, claimTime });
+  if (rejection) {
+    console.warn(`Ignoring game result: ${RESULT_REJECTION_MESSAGES[rejection]}`);
+    result = null;
+  }
+  if (result || isResigned(moves)) game.status = 'finished';
+  let unstoredMove: Move | null = null;
+  if (hiddenGameKey && game.status === 'running') {
+    unstoredMove = await recordedMove(game, hiddenGameKey, moves.length).catch(e => {
+      console.warn("Could not read the contract's record of the next move:", e);
+      return null;
+    });
+  }
+
+  return {
+    game,
+    moves,
+    position,
+    deadStoneMarks,
+    result,
+    nextMoveIndex: log.nextIndex,
+    hiddenGameKey,
+    unstoredMove,
+    startTime,
+    offers,
+    nextOfferIndex
+  };
+};
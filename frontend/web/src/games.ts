@@ -0,0 +1,480 @@
+// games.ts
+// Game records on UniversalAdapter. Every game lives under its own `game_<id>` key namespace so
+// one deployment can host any number of games; the `game_keys_<n>` index lists the ids for the lobby.
+import { ethers } from "ethers";
+import { GameSettings, Move, Player } from "./go/types";
+import { RevealConflict, isResigned, nextPlayer, parseMove, reconcileReveal } from "./go/moves";
+import { firstPlayer, parseGameSettings } from "./go/settings";
+
+export type GameStatus = 'open' | 'running' | 'finished';
+
+export interface Game {
+  id: string;
+  creator: string;
+  players: Record<Player, string | null>;
+  settings: GameSettings;
+  status: GameStatus;
+  createdAt: number;
+  // Block the game record was created in; seat writes are looked up from here on.
+  createdBlock: number;
+  // Block the second seat was taken in, where the clocks start. Set from the record's write history on load;
+  // never written into the record itself.
+  startedBlock?: number;
+}
+
+export const GAME_INDEX_KEY = "game_keys";
+
+// Game n of the append-only lobby index. Deployments from before the index listed every id in one
+// array under GAME_INDEX_KEY, which is still read.
+const gameIndexSlot = (index: number) => `${GAME_INDEX_KEY}_${index}`;
+
+// How many index slots have been taken, so a new game finds the next free slot without reading every one.
+const GAME_INDEX_COUNT_KEY = `${GAME_INDEX_KEY}_count`;
+
+const isGameIndexSlot = (key: string) =>
+  key.startsWith(`${GAME_INDEX_KEY}_`) && /^\d+$/.test(key.slice(GAME_INDEX_KEY.length + 1));
+
+export const gameKeys = {
+  meta: (gameId: string) => `game_${gameId}`,
+  // Move n of the append-only move log.
+  move: (gameId: string, index: number) => `game_${gameId}_move_${index}`,
+  // Games created before the move log listed random move ids here, each stored under its own key.
+  legacyMoves: (gameId: string) => `game_${gameId}_moves`,
+  legacyMove: (gameId: string, moveId: string) => `game_${gameId}_move_${moveId}`,
+  deadStones: (gameId: string, player: Player) => `game_${gameId}_dead_${player}`,
+  result: (gameId: string) => `game_${gameId}_result`,
+  // Offer n of the append-only offer log, and the opponent's answer to it.
+  offer: (gameId: string, index: number) => `game_${gameId}_offer_${index}`,
+  offerReply: (gameId: string, index: number) => `game_${gameId}_offer_${index}_reply`
+};
+
+// Every key belonging to a game: its record and everything under `game_<id>_`.
+export const isGameKey = (gameId: string, key: string) =>
+  key === gameKeys.meta(gameId) || key.startsWith(`game_${gameId}_`);
+
+export const newRecordId = () => `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+export const readJson = (bytes: string): any => {
+  if (!bytes || bytes.length <= 2) return null;
+  const str = ethers.toUtf8String(bytes);
+  return str.trim() === '' ? null : JSON.parse(str);
+};
+
+export const writeJson = async (contract: ethers.Contract, key: string, value: unknown) => {
+  const tx = await contract.setData(key, ethers.toUtf8Bytes(JSON.stringify(value)));
+  await tx.wait?.();
+};
+
+export const readKeyList = async (contract: ethers.Contract, key: string): Promise<string[]> => {
+  try {
+    const keys = readJson(await contract.getData(key));
+    return Array.isArray(keys) ? keys : [];
+  } catch (e) {
+    console.error(`Error parsing key list ${key}:`, e);
+    return [];
+  }
+};
+
+const readIndexSlot = async (contract: ethers.Contract, index: number): Promise<string | null> => {
+  try {
+    const id = readJson(await contract.getData(gameIndexSlot(index)));
+    return typeof id === 'string' ? id : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const readGameIndexCount = async (contract: ethers.Contract): Promise<number> => {
+  try {
+    const count = readJson(await contract.getData(GAME_INDEX_COUNT_KEY));
+    return Number.isInteger(count) && count > 0 ? count : 0;
+  } catch (e) {
+    return 0;
+  }
+};
+
+// Each game goes into a slot of its own rather than into a shared list, so creating two games at once
+// can't drop either id. The count can fall behind when creators race, so slots are still checked from it
+// on; a count past an empty slot, or a deployment from before the count, starts from slot 0.
+const appendToGameIndex = async (contract: ethers.Contract, id: string) => {
+  let index = await readGameIndexCount(contract);
+  if (index > 0 && await readIndexSlot(contract, index - 1) === null) index = 0;
+  while (await readIndexSlot(contract, index) !== null) index++;
+  await writeJson(contract, gameIndexSlot(index), id);
+  await writeJson(contract, GAME_INDEX_COUNT_KEY, index + 1);
+};
+
+const parseGame = (id: string, data: any): Game | null => {
+  if (!data) return null;
+  return {
+    id,
+    creator: data.creator || '',
+    players: { black: data.players?.black || null, white: data.players?.white || null },
+    settings: parseGameSettings(data.settings),
+    status: ['open', 'running', 'finished'].includes(data.status) ? data.status : 'open',
+    createdAt: data.createdAt || 0,
+    createdBlock: data.createdBlock || 0
+  };
+};
+
+export const loadGame = async (contract: ethers.Contract, gameId: string): Promise<Game | null> => {
+  try {
+    return parseGame(gameId, readJson(await contract.getData(gameKeys.meta(gameId))));
+  } catch (e) {
+    console.error(`Error loading game ${gameId}:`, e);
+    return null;
+  }
+};
+
+// Public RPC endpoints limit how many blocks one log query may span, so DataStored logs are read in pages.
+const LOG_PAGE_BLOCKS = 10_000;
+
+// How long after a game's record was created its creator can take to store the game's index slot.
+const INDEX_RACE_BLOCKS = 1_000;
+
+const fetchDataStored = async (contract: ethers.Contract, fromBlock: number, toBlock: number) => {
+  const logs: (ethers.EventLog | ethers.Log)[] = [];
+  for (let from = fromBlock; from <= toBlock; from += LOG_PAGE_BLOCKS) {
+    const to = Math.min(from + LOG_PAGE_BLOCKS - 1, toBlock);
+    logs.push(...await contract.queryFilter(contract.filters.DataStored(), from, to));
+  }
+  return logs;
+};
+
+const latestBlock = async (contract: ethers.Contract) => {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract has no provider");
+  return provider.getBlockNumber();
+};
+
+// Ids written to index slots within INDEX_RACE_BLOCKS of the given blocks, including writes a later write to
+// the same slot replaced. Overlapping windows are read once.
+const fetchIndexWrites = async (contract: ethers.Contract, createdBlocks: number[]): Promise<string[]> => {
+  const latest = await latestBlock(contract);
+  const ranges: [number, number][] = [];
+  for (const block of [...createdBlocks].sort((a, b) => a - b)) {
+    const last = ranges[ranges.length - 1];
+    if (last && block <= last[1] + 1) last[1] = Math.max(last[1], block + INDEX_RACE_BLOCKS);
+    else ranges.push([block, block + INDEX_RACE_BLOCKS]);
+  }
+
+  const ids: string[] = [];
+  for (const [from, to] of ranges) {
+    for (const log of await fetchDataStored(contract, from, Math.min(to, latest))) {
+      if (!('args' in log) || !isGameIndexSlot(log.args[1])) continue;
+      try {
+        const id = readJson(log.args[2]);
+        if (typeof id === 'string') ids.push(id);
+      } catch (e) {
+        continue;
+      }
+    }
+  }
+  return ids;
+};
+
+// Two creators who found the same slot free both write it, and getData only returns the second id. The
+// first write is still in the DataStored history: it landed after the second game was created and before
+// the second creator stored the slot, so the windows after the slotted games' blocks bring back every id.
+export const listGames = async (contract: ethers.Contract): Promise<Game[]> => {
+  const games = new Map<string, Game>();
+  const add = async (id: string) => {
+    if (games.has(id)) return;
+    const game = await loadGame(contract, id);
+    if (game) games.set(id, game);
+  };
+
+  for (const id of await readKeyList(contract, GAME_INDEX_KEY)) await add(id);
+  const slotted: Game[] = [];
+  for (let index = 0; ; index++) {
+    const id = await readIndexSlot(contract, index);
+    if (id === null) break;
+    await add(id);
+    if (games.has(id)) slotted.push(games.get(id)!);
+  }
+  if (slotted.length > 0) {
+    try {
+      for (const id of await fetchIndexWrites(contract, slotted.map(g => g.createdBlock))) await add(id);
+    } catch (e) {
+      console.error("Error reading the game index history:", e);
+    }
+  }
+  return Array.from(games.values()).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveGame = (contract: ethers.Contract, game: Game) => {
+  const { startedBlock, ...record } = game;
+  return writeJson(contract, gameKeys.meta(game.id), record);
+};
+
+export const createGame = async (
+  contract: ethers.Contract,
+  creator: string,
+  color: Player,
+  settings: GameSettings
+): Promise<Game> => {
+  const provider = contract.runner?.provider;
+  const game: Game = {
+    id: newRecordId(),
+    creator,
+    players: { black: color === 'black' ? creator : null, white: color === 'white' ? creator : null },
+    settings,
+    status: 'open',
+    createdAt: Math.floor(Date.now() / 1000),
+    createdBlock: provider ? await provider.getBlockNumber() : 0
+  };
+  await saveGame(contract, game);
+  await appendToGameIndex(contract, game.id);
+  return game;
+};
+
+// Taking the free seat starts the game.
+export const joinGame = async (contract: ethers.Contract, game: Game, player: string): Promise<Game> => {
+  if (seatOf(game, player)) throw new Error("Already seated in this game");
+  const color: Player = game.players.black ? 'white' : 'black';
+  const joined: Game = { ...game, players: { ...game.players, [color]: player }, status: 'running' };
+  await saveGame(contract, joined);
+  return joined;
+};
+
+export function normAddr(a: string) {
+  return a ? a.toLowerCase() : a;
+}
+
+export const seatOf = (game: Game, address: string | null | undefined): Player | null => {
+  if (!address) return null;
+  if (normAddr(game.players.black || '') === normAddr(address)) return 'black';
+  if (normAddr(game.players.white || '') === normAddr(address)) return 'white';
+  return null;
+};
+
+export interface KeyWrite {
+  sender: string;
+  key: string;
+  value: string;
+  blockNumber: number;
+}
+
+// UniversalAdapter keys are writable by anyone, so getData alone can't tell who stored a record.
+// The DataStored logs can: these are all writes to the game's keys, oldest first.
+export const fetchGameWrites = async (contract: ethers.Contract, gameId: string, fromBlock: number): Promise<KeyWrite[]> => {
+  const logs = await fetchDataStored(contract, fromBlock, await latestBlock(contract));
+  const writes: KeyWrite[] = [];
+  for (const log of logs) {
+    if (!('args' in log)) continue;
+    const [sender, key, value] = log.args;
+    if (isGameKey(gameId, key)) {
+      writes.push({ sender: normAddr(sender), key, value, blockNumber: log.blockNumber });
+    }
+  }
+  return writes;
+};
+
+// Block timestamps never change, so they are fetched once per session.
+const blockTimes = new Map<number, number>();
+
+export const fetchBlockTimes = async (contract: ethers.Contract, blockNumbers: number[]): Promise<Map<number, number>> => {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract has no provider");
+  for (const blockNumber of new Set(blockNumbers)) {
+    if (blockTimes.has(blockNumber)) continue;
+    const block = await provider.getBlock(blockNumber);
+    if (block) blockTimes.set(blockNumber, block.timestamp);
+  }
+  return blockTimes;
+};
+
+const keepsSeats = (game: Game, next: Game) =>
+  (['black', 'white'] as Player[]).every(c => !game.players[c] || normAddr(next.players[c] || '') === normAddr(game.players[c]!));
+
+// Seats come from the history of the game record rather than its current value: the first write
+// must be the creator seating themselves and anyone else may only take the free seat for themselves.
+// The status a record claims is not trusted: the game is open until both seats are taken and running
+// from then on. Whether it is finished follows from its moves and result, which loadGameState checks.
+export const resolveGame = (gameId: string, writes: KeyWrite[]): Game | null => {
+  let game: Game | null = null;
+  for (const write of writes) {
+    if (write.key !== gameKeys.meta(gameId)) continue;
+    let next: Game | null = null;
+    try { next = parseGame(gameId, readJson(write.value)); } catch (e) { continue; }
+    if (!next) continue;
+
+    if (!game) {
+      if (normAddr(next.creator) === write.sender && seatOf(next, write.sender) && next.status === 'open') game = next;
+      continue;
+    }
+    if (!keepsSeats(game, next)) continue;
+    const seated = seatOf(game, write.sender);
+    const joined = !seated && seatOf(next, write.sender) && !(game.players.black && game.players.white);
+    if (seated || joined) game = { ...game, players: next.players };
+    if (game.startedBlock === undefined && game.players.black && game.players.white) {
+      game.startedBlock = write.blockNumber;
+      game.status = 'running';
+    }
+  }
+  return game;
+};
+
+// The last write to each key by a seated player; writes from anyone else are ignored outright.
+export const seatWrites = (game: Game, writes: KeyWrite[]): Map<string, KeyWrite> => {
+  const latest = new Map<string, KeyWrite>();
+  for (const write of writes) {
+    if (seatOf(game, write.sender)) latest.set(write.key, write);
+  }
+  return latest;
+};
+
+// Reads a key as last written by a seated player, or by the holder of `seat` when given.
+export const readSeatJson = (game: Game, writes: Map<string, KeyWrite>, key: string, seat?: Player): any => {
+  const write = writes.get(key);
+  if (!write || (seat && seatOf(game, write.sender) !== seat)) return null;
+  try {
+    return readJson(write.value);
+  } catch (e) {
+    console.error(`Error parsing ${key}:`, e);
+    return null;
+  }
+};
+
+// A move record as first stored, and as last rewritten by the same seat (the same when never rewritten).
+export interface MoveLogEntry {
+  key: string;
+  sender: string;
+  original: string;
+  latest: string;
+  // Block of the original write; the move counts as played then.
+  blockNumber: number;
+  // Position in the move log; not set for moves of legacy games.
+  index?: number;
+}
+
+export interface MoveLog {
+  entries: MoveLogEntry[];
+  // The index the next move is stored at.
+  nextIndex: number;
+}
+
+const tryParseMove = (value: string): Move | null => {
+  try {
+    return parseMove(readJson(value));
+  } catch (e) {
+    return null;
+  }
+};
+
+const isLogKey = (gameId: string, key: string) => {
+  const prefix = `game_${gameId}_move_`;
+  return key.startsWith(prefix) && /^\d+$/.test(key.slice(prefix.length));
+};
+
+// Move n is owned by the seat that first stored `game_<id>_move_<n>`; later writes by anyone else are
+// ignored, so two players writing the same index can't overwrite each other. The log ends at the first
+// missing index. Moves of legacy games come first, in the order their list holds them.
+export const readMoveLog = (game: Game, history: KeyWrite[], writes: Map<string, KeyWrite>): MoveLog => {
+  const owned = new Map<string, MoveLogEntry>();
+  for (const { key, sender, value, blockNumber } of history) {
+    if (!seatOf(game, sender)) continue;
+    const entry = owned.get(key);
+    if (!entry) owned.set(key, { key, sender, original: value, latest: value, blockNumber });
+    else if (entry.sender === sender) entry.latest = value;
+  }
+
+  const legacyIds = readSeatJson(game, writes, gameKeys.legacyMoves(game.id));
+  const entries = (Array.isArray(legacyIds) ? legacyIds : [])
+    .map((moveId: string) => owned.get(gameKeys.legacyMove(game.id, moveId)))
+    .filter((entry): entry is MoveLogEntry => !!entry);
+
+  // Legacy reveals were written to `move_<n>`, n being the move's position in the game, where the log
+  // now lives. They are attached back to the hidden move they reveal and skipped as log entries.
+  const misplaced = new Set<string>();
+  for (const entry of entries) {
+    const original = tryParseMove(entry.original);
+    if (!original || original.type !== 'hidden' || entry.latest !== entry.original) continue;
+    for (const candidate of owned.values()) {
+      const reveal = candidate.sender === entry.sender && isLogKey(game.id, candidate.key) ? tryParseMove(candidate.latest) : null;
+      if (reveal && !misplaced.has(candidate.key) && !reconcileReveal(original, reveal)) {
+        entry.latest = candidate.latest;
+        misplaced.add(candidate.key);
+        break;
+      }
+    }
+  }
+
+  let nextIndex = 0;
+  for (; owned.has(gameKeys.move(game.id, nextIndex)); nextIndex++) {
+    const key = gameKeys.move(game.id, nextIndex);
+    if (!misplaced.has(key)) entries.push({ ...owned.get(key)!, index: nextIndex });
+  }
+  return { entries, nextIndex };
+};
+
+// storageKey and blockTime describe the write and are not part of the record.
+export const writeMove = (contract: ethers.Contract, key: string, move: Move) => {
+  const { storageKey, blockTime, ...record } = move;
+  return writeJson(contract, key, record);
+};
+
+// An accepted undo: the last `count` moves before move log slot `moveIndex` are taken back.
+export interface Takeback {
+  moveIndex: number;
+  count: number;
+}
+
+export type MoveRejection = 'unreadable' | 'wrong-signer' | 'out-of-turn';
+
+export const MOVE_REJECTION_MESSAGES: Record<MoveRejection, string> = {
+  'unreadable': "Move record could not be read",
+  'wrong-signer': "Move was stored by the wrong player",
+  'out-of-turn': "Move was played out of turn"
+};
+
+// Replays the move log in order, dropping moves whose signer doesn't hold the colour they claim or
+// that break the alternation. Resigning is allowed at any time until the game is over. A rewritten
+// record only counts if it reveals the hidden move first stored there; otherwise the original stands.
+// Takebacks apply where they were agreed, so the moves after them alternate from the rolled-back position.
+export const verifyMoves = (
+  game: Game,
+  log: MoveLog,
+  takebacks: Takeback[] = []
+): {
+  moves: Move[];
+  rejected: Array<{ key: string; reason: MoveRejection }>;
+  conflicts: Array<{ key: string; reason: RevealConflict }>;
+} => {
+  const moves: Move[] = [];
+  const rejected: Array<{ key: string; reason: MoveRejection }> = [];
+  const conflicts: Array<{ key: string; reason: RevealConflict }> = [];
+  const first = firstPlayer(game.settings);
+  const pending = [...takebacks].sort((a, b) => a.moveIndex - b.moveIndex);
+  const takeBack = (upTo: number) => {
+    while (pending.length > 0 && pending[0].moveIndex <= upTo) {
+      moves.splice(Math.max(0, moves.length - pending.shift()!.count));
+    }
+  };
+
+  for (const { key, sender, original, latest, index } of log.entries) {
+    if (index !== undefined) takeBack(index);
+    const stored = tryParseMove(original);
+    if (!stored) {
+      rejected.push({ key, reason: 'unreadable' });
+      continue;
+    }
+    let move: Move = { ...stored, storageKey: key };
+    if (latest !== original) {
+      const updated = tryParseMove(latest);
+      const conflict = updated ? reconcileReveal(stored, updated) : 'unreadable';
+      if (conflict) conflicts.push({ key, reason: conflict });
+      else move = { ...updated!, storageKey: key };
+    }
+
+    if (sender !== move.signer || seatOf(game, sender) !== move.player) {
+      rejected.push({ key, reason: 'wrong-signer' });
+    } else if (move.type === 'resign' ? isResigned(moves) : nextPlayer(moves, first) !== move.player) {
+      rejected.push({ key, reason: 'out-of-turn' });
+    } else {
+      moves.push(move);
+    }
+  }
+  takeBack(log.nextIndex);
+  return { moves, rejected, conflicts };
+};
@@ -0,0 +1,143 @@
+// go/clock.ts
+// Game clocks. Times are in seconds and come from block timestamps: a move's time is the block that stored
+// it, and the clock starts in the block where the second seat was taken. Anyone replaying the same blocks
+// arrives at the same clocks, which is what makes a timeout claim checkable.
+import { Move, Player, TimeControl, TimeSystem } from "./types";
+import { isResigned, nextPlayer } from "./moves";
+import { isPlayFinished } from "./rules";
+
+export const TIME_SYSTEM_LABELS: Record<TimeSystem, string> = {
+  'none': "No clock",
+  'absolute': "Absolute",
+  'fischer': "Fischer",
+  'byo-yomi': "Byo-yomi"
+};
+
+export const DEFAULT_TIME_CONTROL: TimeControl = {
+  system: 'none',
+  mainTime: 1800,
+  increment: 10,
+  periods: 5,
+  periodTime: 30
+};
+
+const isCount = (value: unknown, min: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min;
+
+export const isTimeSystem = (value: unknown): value is TimeSystem =>
+  typeof value === 'string' && value in TIME_SYSTEM_LABELS;
+
+export const isValidTimeControl = (control: TimeControl) =>
+  isTimeSystem(control.system)
+  && isCount(control.mainTime, control.system === 'byo-yomi' ? 0 : 1)
+  && isCount(control.increment, 0)
+  && isCount(control.periods, control.system === 'byo-yomi' ? 1 : 0)
+  && isCount(control.periodTime, control.system === 'byo-yomi' ? 1 : 0);
+
+// Games created before clocks existed have none.
+export const parseTimeControl = (data: any): TimeControl => {
+  const control = { ...DEFAULT_TIME_CONTROL, ...(data && typeof data === 'object' ? data : {}) };
+  return isValidTimeControl(control) ? control : { ...DEFAULT_TIME_CONTROL };
+};
+
+export interface PlayerClock {
+  // Main time left.
+  main: number;
+  // Byo-yomi periods left, and what is left of the current one.
+  periods: number;
+  periodLeft: number;
+  expired: boolean;
+}
+
+export interface Clocks {
+  clocks: Record<Player, PlayerClock>;
+  // Whose clock is running; null once play has stopped.
+  running: Player | null;
+}
+
+const startingClock = (control: TimeControl): PlayerClock => ({
+  main: control.mainTime,
+  periods: control.system === 'byo-yomi' ? control.periods : 0,
+  periodLeft: control.system === 'byo-yomi' ? control.periodTime : 0,
+  expired: false
+});
+
+// Takes `elapsed` seconds off a clock at the start of its turn. Byo-yomi starts every turn with a full
+// period, and each period that runs out entirely is lost.
+const spend = (control: TimeControl, clock: PlayerClock, elapsed: number): PlayerClock => {
+  if (elapsed < clock.main) return { ...clock, main: clock.main - elapsed };
+  const overflow = elapsed - clock.main;
+  if (control.system !== 'byo-yomi') return { ...clock, main: 0, expired: true };
+  const periods = clock.periods - Math.floor(overflow / control.periodTime);
+  if (periods <= 0) return { ...clock, main: 0, periods: 0, periodLeft: 0, expired: true };
+  return { ...clock, main: 0, periods, periodLeft: control.periodTime - (overflow % control.periodTime) };
+};
+
+// A move played after the flag fell still stands, but leaves its player with no time; the opponent can
+// claim as soon as that player is on move again.
+const finishTurn = (control: TimeControl, clock: PlayerClock): PlayerClock => {
+  if (clock.expired) return { main: 0, periods: 0, periodLeft: 0, expired: false };
+  if (control.system === 'fischer') return { ...clock, main: clock.main + control.increment };
+  if (control.system === 'byo-yomi') return { ...clock, periodLeft: control.periodTime };
+  return clock;
+};
+
+// The clocks at time `now`. `moves` are the moves played before `now`, each timed by its block, or by
+// its own timestamp until the block is known; `running` is whoever is on move at `now`, if play goes on.
+export const runClocks = (
+  control: TimeControl,
+  start: number,
+  moves: Move[],
+  running: Player | null,
+  now: number
+): Clocks => {
+  const clocks: Record<Player, PlayerClock> = { black: startingClock(control), white: startingClock(control) };
+  if (control.system === 'none') return { clocks, running: null };
+
+  let last = start;
+  for (const move of moves) {
+    if (move.type === 'resign') continue;
+    const time = Math.max(move.blockTime ?? move.timestamp, last);
+    clocks[move.player] = finishTurn(control, spend(control, clocks[move.player], time - last));
+    last = time;
+  }
+  if (running) clocks[running] = spend(control, clocks[running], Math.max(0, now - last));
+  return { clocks, running };
+};
+
+// Whose clock runs after these moves: nobody's once a player resigned or both passed.
+export const clockOwner = (moves: Move[], first: Player): Player | null =>
+  isResigned(moves) || isPlayFinished(moves) ? null : nextPlayer(moves, first);
+
+// The player on move whose time has run out, who the opponent may claim a win against.
+export const flaggedPlayer = ({ clocks, running }: Clocks): Player | null =>
+  running && clocks[running].expired ? running : null;
+
+const formatSeconds = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(s / 3600);
+  const minutes = Math.floor((s % 3600) / 60);
+  const rest = String(s % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+export const describeClock = (control: TimeControl, clock: PlayerClock): string => {
+  if (clock.expired) return "Out of time";
+  if (control.system === 'byo-yomi' && clock.main === 0) {
+    return `${formatSeconds(clock.periodLeft)} (${clock.periods} × ${formatSeconds(control.periodTime)})`;
+  }
+  return formatSeconds(clock.main);
+};
+
+export const describeTimeControl = (control: TimeControl): string => {
+  switch (control.system) {
+    case 'none':
+      return TIME_SYSTEM_LABELS.none;
+    case 'absolute':
+      return `${formatSeconds(control.mainTime)} absolute`;
+    case 'fischer':
+      return `${formatSeconds(control.mainTime)} + ${control.increment}s`;
+    case 'byo-yomi':
+      return `${formatSeconds(control.mainTime)} + ${control.periods} × ${formatSeconds(control.periodTime)}`;
+  }
+};
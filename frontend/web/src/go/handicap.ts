@@ -0,0 +1,36 @@
+// go/handicap.ts
+import { Point } from "./types";
+
+export const BOARD_SIZES = [9, 13, 19] as const;
+
+export type BoardSize = typeof BOARD_SIZES[number];
+
+export const MAX_HANDICAP = 9;
+
+export const isBoardSize = (value: unknown): value is BoardSize =>
+  BOARD_SIZES.includes(value as BoardSize);
+
+// Fixed handicap placement on the star points. Stones go to opposite corners first, then the
+// remaining corners, the side points and the centre (the centre only for odd counts from 5).
+export const handicapPoints = (size: BoardSize, count: number): Point[] => {
+  if (count < 2 || count > MAX_HANDICAP) return [];
+
+  const edge = size === 9 ? 2 : 3;
+  const low = edge;
+  const mid = (size - 1) / 2;
+  const high = size - 1 - edge;
+
+  const corners: Point[] = [
+    { x: low, y: high },
+    { x: high, y: low },
+    { x: high, y: high },
+    { x: low, y: low }
+  ];
+  const leftRight: Point[] = [{ x: mid, y: low }, { x: mid, y: high }];
+  const topBottom: Point[] = [{ x: low, y: mid }, { x: high, y: mid }];
+  const centre: Point = { x: mid, y: mid };
+
+  if (count <= 4) return corners.slice(0, count);
+  const sides = count >= 8 ? [...leftRight, ...topBottom] : count >= 6 ? leftRight : [];
+  return [...corners, ...sides, ...(count % 2 === 1 ? [centre] : [])];
+};
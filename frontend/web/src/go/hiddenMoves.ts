@@ -0,0 +1,47 @@
+// go/hiddenMoves.ts
+import { HiddenMovePolicy, Move, Player } from "./types";
+import { isHiddenMove, isUnrevealedHiddenMove } from "./moves";
+
+export const DEFAULT_HIDDEN_MOVE_POLICY: HiddenMovePolicy = {
+  interval: 5,
+  maxPerPlayer: 5,
+  maxUnrevealed: 2,
+  minRevealDelay: 4,
+  maxRevealDelay: 20
+};
+
+const isCount = (value: unknown, min: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min;
+
+// The same bounds GoFHEHiddenMoveFHE.openGame accepts.
+export const isValidHiddenMovePolicy = (policy: HiddenMovePolicy) =>
+  isCount(policy.interval, 1)
+  && isCount(policy.maxPerPlayer, 0)
+  && isCount(policy.maxUnrevealed, 0)
+  && isCount(policy.minRevealDelay, 1)
+  && isCount(policy.maxRevealDelay, policy.minRevealDelay);
+
+export const parseHiddenMovePolicy = (data: any): HiddenMovePolicy => {
+  const policy = { ...DEFAULT_HIDDEN_MOVE_POLICY, ...(data && typeof data === 'object' ? data : {}) };
+  return isValidHiddenMovePolicy(policy) ? policy : { ...DEFAULT_HIDDEN_MOVE_POLICY };
+};
+
+export type HiddenMoveBlocker = 'not-due' | 'quota-reached' | 'too-many-unrevealed';
+
+export const HIDDEN_MOVE_BLOCKER_MESSAGES: Record<HiddenMoveBlocker, string> = {
+  'not-due': "Hidden moves are not allowed on this move",
+  'quota-reached': "You have used all your hidden moves",
+  'too-many-unrevealed': "Too many of your hidden stones are still unrevealed"
+};
+
+// Why the player may not go hidden on the next move, checked in the same order as the contract.
+export const hiddenMoveBlocker = (moves: Move[], player: Player, policy: HiddenMovePolicy): HiddenMoveBlocker | null => {
+  if ((moves.length + 1) % policy.interval !== 0) return 'not-due';
+  const own = moves.filter(m => m.player === player);
+  if (own.filter(isHiddenMove).length >= policy.maxPerPlayer) return 'quota-reached';
+  if (own.filter(isUnrevealedHiddenMove).length >= policy.maxUnrevealed) return 'too-many-unrevealed';
+  return null;
+};
+
+export const movesUntilHiddenMove = (moves: Move[], policy: HiddenMovePolicy) =>
+  policy.interval - (moves.length % policy.interval);
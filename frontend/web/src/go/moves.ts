@@ -0,0 +1,103 @@
+// go/moves.ts
+import { EncryptedMoveRef, Move, MoveType, Player, opponentOf } from "./types";
+
+const MOVE_TYPES: MoveType[] = ['place', 'pass', 'resign', 'hidden', 'blocked'];
+
+export const MOVE_TYPE_LABELS: Record<MoveType, string> = {
+  place: "Stone",
+  pass: "Pass",
+  resign: "Resignation",
+  hidden: "Hidden Move",
+  blocked: "Blocked Stone"
+};
+
+// Records written before the move type existed only carry `isHidden`.
+export const parseMoveType = (data: any): MoveType => {
+  if (MOVE_TYPES.includes(data?.type)) return data.type;
+  return data?.isHidden ? 'hidden' : 'place';
+};
+
+export const parseMove = (data: any): Move => {
+  const type = parseMoveType(data);
+  const move: Move = {
+    type,
+    x: typeof data.x === 'number' ? data.x : -1,
+    y: typeof data.y === 'number' ? data.y : -1,
+    player: data.player === 'white' ? 'white' : 'black',
+    signer: typeof data.signer === 'string' ? data.signer.toLowerCase() : '',
+    timestamp: data.timestamp,
+    revealed: type === 'hidden' && !!data.revealed
+  };
+  if (type === 'hidden' && data.encrypted) move.encrypted = data.encrypted;
+  if (move.revealed && typeof data.revealedAt === 'number') move.revealedAt = data.revealedAt;
+  if ((type === 'place' || type === 'blocked') && data.check) move.check = data.check;
+  return move;
+};
+
+// Where a hidden stone stood and how many moves had been played when the contract made it public.
+export interface StoneReveal {
+  x: number;
+  y: number;
+  revealedAt: number;
+}
+
+// The contract's reveals are authoritative: they set where the stone stands and when it became public,
+// whatever its move record says.
+export const applyStoneReveals = (moves: Move[], reveals: Map<number, StoneReveal>): Move[] =>
+  moves.map(m => {
+    const reveal = m.type === 'hidden' && m.encrypted ? reveals.get(m.encrypted.stoneIndex) : undefined;
+    return reveal ? { ...m, ...reveal, revealed: true } : m;
+  });
+
+export type RevealConflict = 'unreadable' | 'not-hidden' | 'not-revealed' | 'record-changed';
+
+export const REVEAL_CONFLICT_MESSAGES: Record<RevealConflict, string> = {
+  'unreadable': "Revealed record could not be read",
+  'not-hidden': "Only hidden moves can be revealed",
+  'not-revealed': "Rewritten record is not a reveal",
+  'record-changed': "Revealed record does not match the hidden move it replaces"
+};
+
+const sameEncryptedRef = (a?: EncryptedMoveRef, b?: EncryptedMoveRef) =>
+  !!a && !!b && a.stoneIndex === b.stoneIndex && a.batchId === b.batchId && a.index === b.index
+  && a.x === b.x && a.y === b.y && a.revealStep === b.revealStep;
+
+// A move record may only be rewritten to reveal a hidden stone: everything except the coordinates and
+// the revealed flag has to match the record as first stored.
+export const reconcileReveal = (original: Move, updated: Move): RevealConflict | null => {
+  if (original.type !== 'hidden') return 'not-hidden';
+  if (updated.type !== 'hidden' || !updated.revealed) return 'not-revealed';
+  const matches = updated.player === original.player
+    && updated.signer === original.signer
+    && updated.timestamp === original.timestamp
+    && sameEncryptedRef(updated.encrypted, original.encrypted);
+  return matches ? null : 'record-changed';
+};
+
+export const isHiddenMove = (move: Move) => move.type === 'hidden';
+
+export const isUnrevealedHiddenMove = (move: Move) => move.type === 'hidden' && !move.revealed;
+
+export const isResigned = (moves: Move[]) => moves.some(m => m.type === 'resign');
+
+// Every move type hands the turn to the opponent; nobody moves after a resignation.
+export const nextPlayer = (moves: Move[], first: Player = 'black'): Player | null => {
+  if (moves.length === 0) return first;
+  const last = moves[moves.length - 1];
+  return last.type === 'resign' ? null : opponentOf(last.player);
+};
+
+export const describeMove = (move: Move): string => {
+  switch (move.type) {
+    case 'place':
+      return `Played at (${move.x},${move.y})`;
+    case 'pass':
+      return "Passed";
+    case 'resign':
+      return "Resigned";
+    case 'hidden':
+      return move.revealed ? `Hidden move revealed at (${move.x},${move.y})` : "Hidden move (encrypted)";
+    case 'blocked':
+      return `Blocked by a hidden stone at (${move.x},${move.y})`;
+  }
+};
@@ -0,0 +1,21 @@
+// go/replay.ts
+// Which moves a replay puts on the board at any move of a game. Revealed hidden stones can be shown as the players
+// saw them, only from the move they were revealed on, or omnisciently, standing from the move they were played on.
+import { Move } from "./types";
+
+export type ReplayView = 'as-seen' | 'omniscient';
+
+export const REPLAY_VIEW_LABELS: Record<ReplayView, string> = {
+  'as-seen': "As the players saw it",
+  'omniscient': "Omniscient"
+};
+
+// The first `step` moves, with hidden moves revealed later than that still hidden when viewed as seen.
+// A reveal from before reveal times were recorded counts as made at the end of the game.
+export const movesAt = (moves: Move[], step: number, view: ReplayView): Move[] => {
+  const played = moves.slice(0, step);
+  if (view === 'omniscient') return played;
+  return played.map(move =>
+    move.type === 'hidden' && move.revealed && (move.revealedAt ?? moves.length) > step ? { ...move, revealed: false } : move
+  );
+};
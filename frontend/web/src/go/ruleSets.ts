@@ -0,0 +1,26 @@
+// go/ruleSets.ts
+export type KoRule = 'simple' | 'positional-superko' | 'situational-superko';
+
+export type ScoringMethod = 'territory' | 'area';
+
+export type RuleSetId = 'japanese' | 'chinese' | 'aga' | 'new-zealand';
+
+export interface RuleSet {
+  id: RuleSetId;
+  name: string;
+  koRule: KoRule;
+  scoring: ScoringMethod;
+  komi: number;
+}
+
+export const RULE_SETS: Record<RuleSetId, RuleSet> = {
+  'japanese': { id: 'japanese', name: "Japanese", koRule: 'simple', scoring: 'territory', komi: 6.5 },
+  'chinese': { id: 'chinese', name: "Chinese", koRule: 'positional-superko', scoring: 'area', komi: 7.5 },
+  'aga': { id: 'aga', name: "AGA", koRule: 'situational-superko', scoring: 'area', komi: 7.5 },
+  'new-zealand': { id: 'new-zealand', name: "New Zealand", koRule: 'situational-superko', scoring: 'area', komi: 7 }
+};
+
+export const DEFAULT_RULE_SET: RuleSetId = 'japanese';
+
+export const isRuleSetId = (value: unknown): value is RuleSetId =>
+  typeof value === 'string' && value in RULE_SETS;
@@ -0,0 +1,226 @@
+// go/rules.ts
+// Pure Go rules: groups, liberties, captures, suicide and ko/superko. No React or chain access here,
+// so the same code can rebuild a position from a stored move list or validate a new move.
+import { Board, Move, Player, Point, opponentOf } from "./types";
+import { KoRule } from "./ruleSets";
+
+export interface PositionRecord {
+  board: string;
+  // Player whose move produced this board; null for the starting position.
+  player: Player | null;
+}
+
+export interface Position {
+  size: number;
+  board: Board;
+  // Stones captured BY each player.
+  captures: Record<Player, number>;
+  // Every board seen so far, oldest first, used for ko and superko checks.
+  history: PositionRecord[];
+}
+
+export interface Group {
+  player: Player;
+  stones: Point[];
+  liberties: Point[];
+}
+
+export type IllegalMoveReason =
+  | 'out-of-bounds'
+  | 'occupied'
+  | 'suicide'
+  | 'ko'
+  | 'positional-superko'
+  | 'situational-superko';
+
+export type PlayResult =
+  | { legal: true; position: Position; captured: Point[] }
+  | { legal: false; reason: IllegalMoveReason };
+
+export const ILLEGAL_MOVE_MESSAGES: Record<IllegalMoveReason, string> = {
+  'out-of-bounds': "Position is outside the board",
+  'occupied': "Position already occupied",
+  'suicide': "Suicide is not allowed: the stone would have no liberties",
+  'ko': "Ko: you cannot immediately retake the ko, play elsewhere first",
+  'positional-superko': "Superko: this move would repeat an earlier board position",
+  'situational-superko': "Superko: this move would repeat an earlier position with the same player to move"
+};
+
+export const createBoard = (size: number): Board =>
+  Array(size).fill(null).map(() => Array(size).fill(null));
+
+export const boardKey = (board: Board): string =>
+  board.map(row => row.map(stone => (stone === 'black' ? 'b' : stone === 'white' ? 'w' : '.')).join('')).join('/');
+
+// Handicap stones are part of the starting position rather than moves.
+export const createPosition = (size: number, blackStones: Point[] = []): Position => {
+  const board = createBoard(size);
+  for (const { x, y } of blackStones) board[x][y] = 'black';
+  return {
+    size,
+    board,
+    captures: { black: 0, white: 0 },
+    history: [{ board: boardKey(board), player: null }]
+  };
+};
+
+export const isOnBoard = (size: number, x: number, y: number) =>
+  x >= 0 && y >= 0 && x < size && y < size;
+
+export const neighbours = (size: number, x: number, y: number): Point[] =>
+  [{ x: x - 1, y }, { x: x + 1, y }, { x, y: y - 1 }, { x, y: y + 1 }]
+    .filter(p => isOnBoard(size, p.x, p.y));
+
+export const getGroup = (board: Board, x: number, y: number): Group | null => {
+  const player = board[x]?.[y];
+  if (!player) return null;
+
+  const size = board.length;
+  const seen = new Set<string>([`${x},${y}`]);
+  const libertyKeys = new Set<string>();
+  const stones: Point[] = [];
+  const liberties: Point[] = [];
+  const stack: Point[] = [{ x, y }];
+
+  while (stack.length > 0) {
+    const point = stack.pop()!;
+    stones.push(point);
+    for (const n of neighbours(size, point.x, point.y)) {
+      const key = `${n.x},${n.y}`;
+      const stone = board[n.x][n.y];
+      if (stone === null) {
+        if (!libertyKeys.has(key)) {
+          libertyKeys.add(key);
+          liberties.push(n);
+        }
+      } else if (stone === player && !seen.has(key)) {
+        seen.add(key);
+        stack.push(n);
+      }
+    }
+  }
+
+  return { player, stones, liberties };
+};
+
+export const cloneBoard = (board: Board): Board => board.map(row => [...row]);
+
+const repetitionReason = (
+  history: PositionRecord[],
+  record: PositionRecord,
+  koRule: KoRule
+): IllegalMoveReason | null => {
+  switch (koRule) {
+    case 'simple': {
+      // Only the position before the opponent's last move may not be recreated.
+      const beforeLastMove = history[history.length - 2];
+      return beforeLastMove && beforeLastMove.board === record.board ? 'ko' : null;
+    }
+    case 'positional-superko':
+      return history.some(h => h.board === record.board) ? 'positional-superko' : null;
+    case 'situational-superko':
+      return history.some(h => h.board === record.board && h.player === record.player)
+        ? 'situational-superko'
+        : null;
+  }
+};
+
+export const playStone = (
+  position: Position,
+  x: number,
+  y: number,
+  player: Player,
+  koRule: KoRule = 'simple'
+): PlayResult => {
+  const { size } = position;
+  if (!isOnBoard(size, x, y)) return { legal: false, reason: 'out-of-bounds' };
+  if (position.board[x][y] !== null) return { legal: false, reason: 'occupied' };
+
+  const board = cloneBoard(position.board);
+  board[x][y] = player;
+
+  const opponent = opponentOf(player);
+  const captured: Point[] = [];
+  for (const n of neighbours(size, x, y)) {
+    if (board[n.x][n.y] !== opponent) continue;
+    const group = getGroup(board, n.x, n.y)!;
+    if (group.liberties.length > 0) continue;
+    for (const stone of group.stones) {
+      board[stone.x][stone.y] = null;
+      captured.push(stone);
+    }
+  }
+
+  if (captured.length === 0 && getGroup(board, x, y)!.liberties.length === 0) {
+    return { legal: false, reason: 'suicide' };
+  }
+
+  const record: PositionRecord = { board: boardKey(board), player };
+  const repetition = repetitionReason(position.history, record, koRule);
+  if (repetition) return { legal: false, reason: repetition };
+
+  return {
+    legal: true,
+    captured,
+    position: {
+      size,
+      board,
+      captures: { ...position.captures, [player]: position.captures[player] + captured.length },
+      history: [...position.history, record]
+    }
+  };
+};
+
+// A pass leaves the board as it is but still counts as a turn, so it resets simple ko.
+export const playPass = (position: Position, player: Player): Position => ({
+  ...position,
+  history: [...position.history, { board: boardKey(position.board), player }]
+});
+
+// A move puts a stone on the board once its coordinates are public.
+export const isOnBoardMove = (move: Move) => move.type === 'place' || (move.type === 'hidden' && move.revealed);
+
+// Two passes in a row end the play phase.
+export const isPlayFinished = (moves: Move[]) =>
+  moves.length >= 2 && moves[moves.length - 1].type === 'pass' && moves[moves.length - 2].type === 'pass';
+
+export interface ReplayResult {
+  position: Position;
+  // Stored moves that turned out to be illegal when replayed; they are left off the board.
+  rejected: Array<{ move: Move; reason: IllegalMoveReason }>;
+}
+
+// Every turn leaves a history entry, so simple ko always compares against the position before the
+// opponent's last move. Turns that put nothing on the public board (passes, blocked stones, unrevealed
+// hidden moves and stones rejected here) are recorded like passes.
+export const replayMoves = (moves: Move[], start: Position, koRule: KoRule = 'simple'): ReplayResult => {
+  let position = start;
+  const rejected: ReplayResult['rejected'] = [];
+
+  for (const move of moves) {
+    if (move.type === 'resign') continue;
+    if (!isOnBoardMove(move)) {
+      position = playPass(position, move.player);
+      continue;
+    }
+    const result = playStone(position, move.x, move.y, move.player, koRule);
+    if (result.legal) {
+      position = result.position;
+    } else {
+      rejected.push({ move, reason: result.reason });
+      position = playPass(position, move.player);
+    }
+  }
+
+  return { position, rejected };
+};
+
+export const countStones = (board: Board): Record<Player, number> => {
+  const counts = { black: 0, white: 0 };
+  for (const row of board) {
+    for (const stone of row) {
+      if (stone) counts[stone]++;
+    }
+  }
+  return counts;
+};
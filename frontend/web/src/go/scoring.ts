@@ -0,0 +1,151 @@
+// go/scoring.ts
+import { Board, Player, Point, opponentOf } from "./types";
+import { Position, cloneBoard, getGroup, neighbours } from "./rules";
+import { ScoringMethod } from "./ruleSets";
+
+export interface Score {
+  black: number;
+  white: number;
+  winner: Player | null;
+  margin: number;
+  territory: Record<Player, Point[]>;
+}
+
+export interface ScoreResult {
+  winner: Player | null;
+  reason: 'score';
+  black: number;
+  white: number;
+  margin: number;
+  scoring: ScoringMethod;
+  komi: number;
+  deadStones: Point[];
+  timestamp: number;
+}
+
+export interface ResignationResult {
+  winner: Player;
+  reason: 'resignation';
+  timestamp: number;
+}
+
+// Claimed by the winner once the loser's clock ran out; checked against block times on load.
+export interface TimeoutResult {
+  winner: Player;
+  reason: 'timeout';
+  timestamp: number;
+}
+
+// Written by the player accepting a draw offer; only stands if the offer log shows the acceptance.
+export interface AgreementResult {
+  winner: null;
+  reason: 'agreement';
+  timestamp: number;
+}
+
+export type GameResult = ScoreResult | ResignationResult | TimeoutResult | AgreementResult;
+
+export const pointKey = (p: Point) => `${p.x},${p.y}`;
+
+export const samePoints = (a: Point[], b: Point[]) => {
+  if (a.length !== b.length) return false;
+  const keys = new Set(a.map(pointKey));
+  return b.every(p => keys.has(pointKey(p)));
+};
+
+// Marking a stone as dead marks its whole group; marking it again brings the group back.
+export const toggleDeadGroup = (board: Board, deadStones: Point[], x: number, y: number): Point[] => {
+  const group = getGroup(board, x, y);
+  if (!group) return deadStones;
+  const groupKeys = new Set(group.stones.map(pointKey));
+  const alreadyDead = deadStones.some(p => groupKeys.has(pointKey(p)));
+  const rest = deadStones.filter(p => !groupKeys.has(pointKey(p)));
+  return alreadyDead ? rest : [...rest, ...group.stones];
+};
+
+// Empty regions bordered by a single colour count as that colour's territory; regions touching
+// both colours (dame and seki) belong to nobody.
+export const findTerritory = (board: Board): Record<Player, Point[]> => {
+  const size = board.length;
+  const territory: Record<Player, Point[]> = { black: [], white: [] };
+  const seen = new Set<string>();
+
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      if (board[x][y] !== null || seen.has(pointKey({ x, y }))) continue;
+
+      const region: Point[] = [];
+      const borders = new Set<Player>();
+      const stack: Point[] = [{ x, y }];
+      seen.add(pointKey({ x, y }));
+      while (stack.length > 0) {
+        const point = stack.pop()!;
+        region.push(point);
+        for (const n of neighbours(size, point.x, point.y)) {
+          const stone = board[n.x][n.y];
+          if (stone !== null) {
+            borders.add(stone);
+          } else if (!seen.has(pointKey(n))) {
+            seen.add(pointKey(n));
+            stack.push(n);
+          }
+        }
+      }
+
+      if (borders.size === 1) {
+        const [owner] = Array.from(borders);
+        territory[owner].push(...region);
+      }
+    }
+  }
+
+  return territory;
+};
+
+export const scorePosition = (
+  position: Position,
+  deadStones: Point[],
+  scoring: ScoringMethod,
+  komi: number
+): Score => {
+  const board = cloneBoard(position.board);
+  const prisoners = { ...position.captures };
+  for (const { x, y } of deadStones) {
+    const stone = board[x]?.[y];
+    if (!stone) continue;
+    board[x][y] = null;
+    prisoners[opponentOf(stone)]++;
+  }
+
+  const territory = findTerritory(board);
+  const points = { black: territory.black.length, white: territory.white.length + komi };
+
+  if (scoring === 'area') {
+    for (const row of board) {
+      for (const stone of row) {
+        if (stone) points[stone]++;
+      }
+    }
+  } else {
+    points.black += prisoners.black;
+    points.white += prisoners.white;
+  }
+
+  const margin = Math.abs(points.black - points.white);
+  const winner = points.black === points.white ? null : points.black > points.white ? 'black' : 'white';
+  return { black: points.black, white: points.white, winner, margin, territory };
+};
+
+export const describeResult = (result: GameResult) => {
+  if (result.reason === 'agreement') return "Draw by agreement";
+  if (!result.winner) return "Jigo (draw)";
+  const winner = result.winner === 'black' ? "Black" : "White";
+  switch (result.reason) {
+    case 'resignation':
+      return `${winner} wins by resignation`;
+    case 'timeout':
+      return `${winner} wins on time`;
+    case 'score':
+      return `${winner} wins by ${result.margin}`;
+  }
+};
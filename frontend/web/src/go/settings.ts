@@ -0,0 +1,46 @@
+// go/settings.ts
+import { GameSettings, Player } from "./types";
+import { DEFAULT_RULE_SET, RULE_SETS, RuleSetId, isRuleSetId } from "./ruleSets";
+import { BoardSize, MAX_HANDICAP, handicapPoints, isBoardSize } from "./handicap";
+import { Position, createPosition } from "./rules";
+import { DEFAULT_HIDDEN_MOVE_POLICY, parseHiddenMovePolicy } from "./hiddenMoves";
+import { DEFAULT_TIME_CONTROL, parseTimeControl } from "./clock";
+
+export const DEFAULT_BOARD_SIZE: BoardSize = 19;
+
+// Handicap games traditionally give white only half a point of komi.
+export const HANDICAP_KOMI = 0.5;
+
+export const createGameSettings = (
+  ruleSet: RuleSetId = DEFAULT_RULE_SET,
+  boardSize: BoardSize = DEFAULT_BOARD_SIZE,
+  handicap = 0
+): GameSettings => ({
+  ruleSet,
+  komi: handicap > 0 ? HANDICAP_KOMI : RULE_SETS[ruleSet].komi,
+  boardSize,
+  handicap,
+  hiddenMoves: { ...DEFAULT_HIDDEN_MOVE_POLICY },
+  timeControl: { ...DEFAULT_TIME_CONTROL }
+});
+
+const isHandicap = (value: unknown): value is number =>
+  value === 0 || (Number.isInteger(value) && (value as number) >= 2 && (value as number) <= MAX_HANDICAP);
+
+// Settings records written by older clients may lack fields; fill them from the rule set defaults.
+export const parseGameSettings = (data: any): GameSettings => {
+  const settings = createGameSettings(
+    isRuleSetId(data?.ruleSet) ? data.ruleSet : DEFAULT_RULE_SET,
+    isBoardSize(data?.boardSize) ? data.boardSize : DEFAULT_BOARD_SIZE,
+    isHandicap(data?.handicap) ? data.handicap : 0
+  );
+  if (typeof data?.komi === 'number' && Number.isFinite(data.komi)) settings.komi = data.komi;
+  settings.hiddenMoves = parseHiddenMovePolicy(data?.hiddenMoves);
+  settings.timeControl = parseTimeControl(data?.timeControl);
+  return settings;
+};
+
+export const firstPlayer = (settings: GameSettings): Player => (settings.handicap > 0 ? 'white' : 'black');
+
+export const createStartingPosition = (settings: GameSettings): Position =>
+  createPosition(settings.boardSize, handicapPoints(settings.boardSize, settings.handicap));
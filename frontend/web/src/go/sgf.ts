@@ -0,0 +1,202 @@
+// go/sgf.ts
+// SGF (FF[4]) export and import of a game record. Hidden moves use private properties that other tools
+// skip: XH[n] marks move n as played hidden, XR[n] says it was revealed once n moves had been played (empty
+// when that is unknown), and XB[pt] is a visible stone blocked by a hidden one, which cost the turn.
+import { GameSettings, Move, Player, Point, opponentOf } from "./types";
+import { DEFAULT_RULE_SET, RuleSetId } from "./ruleSets";
+import { MAX_HANDICAP, handicapPoints, isBoardSize } from "./handicap";
+import { createGameSettings } from "./settings";
+import { GameResult } from "./scoring";
+
+export interface SgfGame {
+  settings: GameSettings;
+  players: Record<Player, string | null>;
+  moves: Move[];
+  // The RE value, e.g. "B+R", "W+6.5" or "0" for jigo; empty while the game is unfinished.
+  result: string;
+  name?: string;
+  // YYYY-MM-DD
+  date?: string;
+}
+
+export class SgfError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SgfError';
+  }
+}
+
+const SGF_RULES: Record<RuleSetId, string> = {
+  'japanese': "Japanese",
+  'chinese': "Chinese",
+  'aga': "AGA",
+  'new-zealand': "NZ"
+};
+
+const COLOURS: Record<Player, string> = { black: 'B', white: 'W' };
+
+// SGF points are column then row; boards here are indexed board[x][y] with x the row.
+const toSgfPoint = (p: Point) => String.fromCharCode(97 + p.y) + String.fromCharCode(97 + p.x);
+
+// Null for a pass: an empty value, or "tt" as FF[3] wrote it on boards up to 19x19.
+const fromSgfPoint = (value: string, size: number): Point | null => {
+  if (value === '' || (value === 'tt' && size <= 19)) return null;
+  const y = value.charCodeAt(0) - 97;
+  const x = value.charCodeAt(1) - 97;
+  if (value.length !== 2 || x < 0 || y < 0 || x >= size || y >= size) throw new SgfError(`Point "${value}" is off the board`);
+  return { x, y };
+};
+
+const escapeValue = (value: string) => value.replace(/[\]\\]/g, c => `\\${c}`);
+
+export const sgfResult = (result: GameResult | null): string => {
+  if (!result) return '';
+  if (!result.winner) return '0';
+  return `${COLOURS[result.winner]}+${result.reason === 'resignation' ? 'R' : result.reason === 'timeout' ? 'T' : result.margin}`;
+};
+
+export const toSgf = (game: SgfGame): string => {
+  const { settings, players, moves } = game;
+  const resigned = moves.find(m => m.type === 'resign');
+  const result = game.result || (resigned ? `${COLOURS[opponentOf(resigned.player)]}+R` : '');
+
+  const root: Array<[string, string[]]> = [
+    ['FF', ['4']],
+    ['GM', ['1']],
+    ['CA', ['UTF-8']],
+    ['AP', ['EncryptedGo']],
+    ['SZ', [String(settings.boardSize)]],
+    ['KM', [String(settings.komi)]],
+    ['RU', [SGF_RULES[settings.ruleSet]]]
+  ];
+  if (settings.handicap > 0) {
+    root.push(['HA', [String(settings.handicap)]], ['AB', handicapPoints(settings.boardSize, settings.handicap).map(toSgfPoint)]);
+  }
+  if (players.black) root.push(['PB', [players.black]]);
+  if (players.white) root.push(['PW', [players.white]]);
+  if (result) root.push(['RE', [result]]);
+  if (game.name) root.push(['GN', [game.name]]);
+  if (game.date) root.push(['DT', [game.date]]);
+
+  const nodes = [root];
+  moves.forEach((move, i) => {
+    // A resignation is no move in SGF; RE records it.
+    if (move.type === 'resign') return;
+    const colour = COLOURS[move.player];
+    const onBoard = move.type === 'place' || (move.type === 'hidden' && move.revealed);
+    const node: Array<[string, string[]]> = [[colour, [onBoard ? toSgfPoint(move) : '']]];
+    if (move.type === 'hidden') {
+      node.push(['XH', [String(i + 1)]]);
+      if (move.revealed) node.push(['XR', [move.revealedAt === undefined ? '' : String(move.revealedAt)]]);
+    }
+    if (move.type === 'blocked') node.push(['XB', [toSgfPoint(move)]]);
+    nodes.push(node);
+  });
+
+  const formatNode = (node: Array<[string, string[]]>) =>
+    ';' + node.map(([id, values]) => id + values.map(v => `[${escapeValue(v)}]`).join('')).join('');
+  return `(${nodes.map(formatNode).join('\n')})\n`;
+};
+
+type SgfNode = Map<string, string[]>;
+
+// The nodes of the main line: the first variation at every fork, which ends at the first ')'.
+const parseMainLine = (text: string): SgfNode[] => {
+  const start = text.indexOf('(');
+  if (start < 0) throw new SgfError("Not an SGF file");
+  const nodes: SgfNode[] = [];
+  let node: SgfNode | null = null;
+  let i = start + 1;
+
+  while (i < text.length) {
+    const c = text[i];
+    if (c === ')') return nodes;
+    if (c === ';') {
+      node = new Map();
+      nodes.push(node);
+      i++;
+    } else if (/[A-Za-z]/.test(c)) {
+      if (!node) throw new SgfError("Property outside of a node");
+      let ident = '';
+      while (i < text.length && /[A-Za-z]/.test(text[i])) ident += text[i++];
+      const values: string[] = [];
+      while (true) {
+        while (i < text.length && /\s/.test(text[i])) i++;
+        if (text[i] !== '[') break;
+        let value = '';
+        i++;
+        while (i < text.length && text[i] !== ']') {
+          if (text[i] === '\\') i++;
+          value += text[i++];
+        }
+        if (i >= text.length) throw new SgfError("Unterminated property value");
+        values.push(value);
+        i++;
+      }
+      if (values.length === 0) throw new SgfError(`Property ${ident} has no value`);
+      // FF[3] allowed lower-case letters in property names, which carry no meaning.
+      node.set(ident.replace(/[a-z]/g, ''), values);
+    } else {
+      i++;
+    }
+  }
+  throw new SgfError("Unterminated game tree");
+};
+
+const parseCount = (value: string | undefined): number | undefined => {
+  const n = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isInteger(n) && n >= 0 ? n : undefined;
+};
+
+// Reads the main line of the first game in the file. Handicap stones go on the fixed star points
+// whatever AB lists, and the hidden-move policy is not part of the record.
+export const parseSgf = (text: string): SgfGame => {
+  const [root, ...moveNodes] = parseMainLine(text);
+  if (!root) throw new SgfError("The file holds no game");
+  const prop = (node: SgfNode, id: string) => node.get(id)?.[0];
+
+  if ((prop(root, 'GM') ?? '1') !== '1') throw new SgfError("Not a Go game record");
+  const size = Number(prop(root, 'SZ') ?? 19);
+  if (!isBoardSize(size)) throw new SgfError(`Unsupported board size ${prop(root, 'SZ')}`);
+  const handicap = parseCount(prop(root, 'HA')) ?? 0;
+  if (handicap > MAX_HANDICAP) throw new SgfError(`Unsupported handicap ${handicap}`);
+  const rules = (prop(root, 'RU') || '').toLowerCase();
+  const ruleSet = (Object.keys(SGF_RULES) as RuleSetId[]).find(id => SGF_RULES[id].toLowerCase() === rules) ?? DEFAULT_RULE_SET;
+
+  // HA[1] is sometimes written for an even game without komi.
+  const settings = createGameSettings(ruleSet, size, handicap >= 2 ? handicap : 0);
+  const komi = parseFloat(prop(root, 'KM') ?? '');
+  if (Number.isFinite(komi)) settings.komi = komi;
+
+  const players: Record<Player, string | null> = { black: prop(root, 'PB') || null, white: prop(root, 'PW') || null };
+  const moves: Move[] = [];
+  for (const node of moveNodes) {
+    const colour = node.has('B') ? 'B' : node.has('W') ? 'W' : null;
+    if (!colour) continue;
+    const player: Player = colour === 'B' ? 'black' : 'white';
+    const base = { player, signer: (players[player] || '').toLowerCase(), timestamp: 0, revealed: false };
+    const point = fromSgfPoint(prop(node, colour)!, size);
+
+    if (node.has('XH')) {
+      const move: Move = { ...base, type: 'hidden', x: point?.x ?? -1, y: point?.y ?? -1, revealed: !!point };
+      const revealedAt = parseCount(prop(node, 'XR'));
+      if (point && revealedAt !== undefined) move.revealedAt = revealedAt;
+      moves.push(move);
+    } else if (node.has('XB')) {
+      const blocked = fromSgfPoint(prop(node, 'XB')!, size);
+      if (!blocked) throw new SgfError("Blocked stone without a point");
+      moves.push({ ...base, type: 'blocked', ...blocked });
+    } else {
+      moves.push({ ...base, type: point ? 'place' : 'pass', x: point?.x ?? -1, y: point?.y ?? -1 });
+    }
+  }
+
+  const result = prop(root, 'RE') || '';
+  const resignation = /^([BW])\+R/i.exec(result);
+  if (resignation) {
+    const loser = opponentOf(resignation[1].toUpperCase() === 'B' ? 'black' : 'white');
+    moves.push({ type: 'resign', x: -1, y: -1, player: loser, signer: (players[loser] || '').toLowerCase(), timestamp: 0, revealed: false });
+  }
+
+  return { settings, players, moves, result, name: prop(root, 'GN'), date: prop(root, 'DT') };
+};
@@ -0,0 +1,93 @@
+// go/types.ts
+import { RuleSetId } from "./ruleSets";
+import { BoardSize } from "./handicap";
+
+export type Player = 'black' | 'white';
+
+export type Board = Array<Array<Player | null>>;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Where a hidden move's ciphertexts live in GoFHEHiddenMoveFHE; x, y and revealStep are euint32 handles.
+export interface EncryptedMoveRef {
+  // Position in the game's list of hidden stones, used for collision checks.
+  stoneIndex: number;
+  batchId: number;
+  index: number;
+  x: string;
+  y: string;
+  revealStep: string;
+}
+
+// The outcome of GoFHEHiddenMoveFHE.placeStone; `blocked` is the publicly decryptable flag handle.
+export interface PlacementCheckRef {
+  checkId: number;
+  blocked: string;
+}
+
+// 'blocked' is a visible stone that landed on an opponent's hidden stone: it is not placed and the turn is lost.
+export type MoveType = 'place' | 'pass' | 'resign' | 'hidden' | 'blocked';
+
+export interface Move {
+  type: MoveType;
+  // -1 for passes, resignations and hidden moves that have not been revealed yet.
+  x: number;
+  y: number;
+  player: Player;
+  // Lower-cased address of the wallet that stored the move; checked against the game's seats on load.
+  signer: string;
+  timestamp: number;
+  // Only meaningful for hidden moves.
+  revealed: boolean;
+  // Only set for hidden moves that were revealed: how many moves had been played by then, when known.
+  revealedAt?: number;
+  // Only set for hidden moves; kept after the reveal so the coordinates can be checked against it.
+  encrypted?: EncryptedMoveRef;
+  // Set on visible stones played while hidden moves are enabled.
+  check?: PlacementCheckRef;
+  // The UniversalAdapter key the record lives under. Set when a move is loaded or stored; never written
+  // into the record itself.
+  storageKey?: string;
+  // Timestamp of the block that first stored the record, which the clocks run on. Set on load like storageKey.
+  blockTime?: number;
+}
+
+// Mirrors GoFHEHiddenMoveFHE.HiddenMovePolicy, which enforces it on-chain.
+export interface HiddenMovePolicy {
+  // Hidden moves are allowed on move numbers divisible by this.
+  interval: number;
+  maxPerPlayer: number;
+  // Per player, at any one time.
+  maxUnrevealed: number;
+  // Moves after the hidden move itself until it is revealed.
+  minRevealDelay: number;
+  maxRevealDelay: number;
+}
+
+export type TimeSystem = 'none' | 'absolute' | 'fischer' | 'byo-yomi';
+
+// Seconds throughout. Fields a system does not use are ignored.
+export interface TimeControl {
+  system: TimeSystem;
+  mainTime: number;
+  // Fischer: added after each of the player's moves.
+  increment: number;
+  // Byo-yomi: periods that follow the main time; a move within a period keeps it.
+  periods: number;
+  periodTime: number;
+}
+
+export interface GameSettings {
+  ruleSet: RuleSetId;
+  komi: number;
+  boardSize: BoardSize;
+  // 0 for an even game, otherwise 2-9 black stones placed before white's first move.
+  handicap: number;
+  hiddenMoves: HiddenMovePolicy;
+  timeControl: TimeControl;
+}
+
+export const opponentOf = (player: Player): Player => (player === 'black' ? 'white' : 'black');
@@ -0,0 +1,203 @@
+// negotiation.ts
+// Undo requests, draw offers and rematches. An offer is stored by the seat making it in the game's offer
+// log, and the opponent answers under the offer's reply key. Both are EIP-712 signed by the seat's wallet
+// over the game, the offer's index as nonce, its kind and the move it was made at, and only records stored
+// by and signed for the seat they name count. An undo or draw offer lapses once a move is stored in the
+// move log slot that was next when it was made, unless the answer came first.
+import { ethers } from "ethers";
+import { Game, KeyWrite, Takeback, gameKeys, normAddr, readJson, seatOf, writeJson } from "./games";
+import { Player, opponentOf } from "./go/types";
+
+export type OfferKind = 'undo' | 'draw' | 'rematch';
+
+export type OfferStatus = 'pending' | 'accepted' | 'declined' | 'lapsed';
+
+export const OFFER_LABELS: Record<OfferKind, string> = {
+  'undo': "Undo request",
+  'draw': "Draw offer",
+  'rematch': "Rematch offer"
+};
+
+export interface OfferRecord {
+  kind: OfferKind;
+  player: Player;
+  // Lower-cased address of the wallet that stored the offer.
+  signer: string;
+  // The move log slot next in line when the offer was made.
+  moveIndex: number;
+  // Undo only: how many moves to take back, 1 for the requester's own last move or 2 when the opponent
+  // has replied to it since.
+  count?: number;
+  timestamp: number;
+  // EIP-712 signature over the offer's payload, see signOffer.
+  signature: string;
+}
+
+export interface OfferReply {
+  accepted: boolean;
+  player: Player;
+  signer: string;
+  timestamp: number;
+  // The new game, for an accepted rematch.
+  rematchId?: string;
+  // EIP-712 signature over the reply's payload, see signReply.
+  signature: string;
+}
+
+export interface Offer extends OfferRecord {
+  index: number;
+  status: OfferStatus;
+  reply: OfferReply | null;
+}
+
+const isOfferKind = (kind: unknown): kind is OfferKind => typeof kind === 'string' && kind in OFFER_LABELS;
+
+const parseOffer = (data: any): OfferRecord | null => {
+  if (!data || !isOfferKind(data.kind) || !Number.isInteger(data.moveIndex) || data.moveIndex < 0) return null;
+  if (data.kind === 'undo' && data.count !== 1 && data.count !== 2) return null;
+  return {
+    kind: data.kind,
+    player: data.player === 'white' ? 'white' : 'black',
+    signer: typeof data.signer === 'string' ? data.signer : '',
+    moveIndex: data.moveIndex,
+    count: data.kind === 'undo' ? data.count : undefined,
+    timestamp: data.timestamp || 0,
+    signature: typeof data.signature === 'string' ? data.signature : ''
+  };
+};
+
+const parseReply = (data: any): OfferReply | null => {
+  if (!data || typeof data.accepted !== 'boolean') return null;
+  return {
+    accepted: data.accepted,
+    player: data.player === 'white' ? 'white' : 'black',
+    signer: typeof data.signer === 'string' ? data.signer : '',
+    timestamp: data.timestamp || 0,
+    rematchId: typeof data.rematchId === 'string' ? data.rematchId : undefined,
+    signature: typeof data.signature === 'string' ? data.signature : ''
+  };
+};
+
+const OFFER_TYPES = {
+  Offer: [
+    { name: 'gameId', type: 'string' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'kind', type: 'string' },
+    { name: 'moveIndex', type: 'uint256' },
+    { name: 'count', type: 'uint256' }
+  ]
+};
+
+const REPLY_TYPES = {
+  Reply: [
+    { name: 'gameId', type: 'string' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'kind', type: 'string' },
+    { name: 'moveIndex', type: 'uint256' },
+    { name: 'accepted', type: 'bool' },
+    { name: 'rematchId', type: 'string' }
+  ]
+};
+
+type UnsignedOffer = Omit<OfferRecord, 'signature'>;
+type UnsignedReply = Omit<OfferReply, 'signature'>;
+
+const offerPayload = (gameId: string, index: number, offer: UnsignedOffer) =>
+  ({ gameId, nonce: index, kind: offer.kind, moveIndex: offer.moveIndex, count: offer.count ?? 0 });
+
+const replyPayload = (gameId: string, index: number, offer: UnsignedOffer, reply: UnsignedReply) =>
+  ({ gameId, nonce: index, kind: offer.kind, moveIndex: offer.moveIndex, accepted: reply.accepted, rematchId: reply.rematchId ?? '' });
+
+// Offers are signed for the chain and contract the game is stored in.
+export const offerDomain = async (contract: ethers.Contract): Promise<ethers.TypedDataDomain> => ({
+  name: 'EncryptedGo',
+  version: '1',
+  chainId: (await contract.runner!.provider!.getNetwork()).chainId,
+  verifyingContract: await contract.getAddress()
+});
+
+export const signOffer = (signer: ethers.Signer, domain: ethers.TypedDataDomain, gameId: string, index: number, offer: UnsignedOffer) =>
+  signer.signTypedData(domain, OFFER_TYPES, offerPayload(gameId, index, offer));
+
+export const signReply = (signer: ethers.Signer, domain: ethers.TypedDataDomain, gameId: string, index: number, offer: UnsignedOffer, reply: UnsignedReply) =>
+  signer.signTypedData(domain, REPLY_TYPES, replyPayload(gameId, index, offer, reply));
+
+// Whether `signature` over `value` was made by `signer`, a lower-cased address.
+const signedBy = (domain: ethers.TypedDataDomain, types: typeof OFFER_TYPES | typeof REPLY_TYPES, value: Record<string, unknown>, signature: string, signer: string) => {
+  try {
+    return normAddr(ethers.verifyTypedData(domain, types, value, signature)) === signer;
+  } catch (e) {
+    return false;
+  }
+};
+
+const tryRead = <T>(value: string, parse: (data: any) => T | null): T | null => {
+  try {
+    return parse(readJson(value));
+  } catch (e) {
+    return null;
+  }
+};
+
+// Where in the write history a key was first written by a seated player, if `seat` is given by that seat.
+const firstWrite = (game: Game, history: KeyWrite[], key: string, seat?: Player): { position: number; write: KeyWrite } | null => {
+  const position = history.findIndex(w => w.key === key && (seat ? seatOf(game, w.sender) === seat : !!seatOf(game, w.sender)));
+  return position < 0 ? null : { position, write: history[position] };
+};
+
+// Offer n belongs to the seat that first stored it, and its reply to the first answer by the other seat.
+// The log ends at the first missing index; offers whose record does not match its sender or signature are
+// skipped.
+export const readOffers = (game: Game, history: KeyWrite[], domain: ethers.TypedDataDomain): { offers: Offer[]; nextIndex: number } => {
+  const offers: Offer[] = [];
+  let nextIndex = 0;
+  for (; ; nextIndex++) {
+    const stored = firstWrite(game, history, gameKeys.offer(game.id, nextIndex));
+    if (!stored) break;
+    const record = tryRead(stored.write.value, parseOffer);
+    if (!record || record.signer !== stored.write.sender || seatOf(game, stored.write.sender) !== record.player) continue;
+    if (!signedBy(domain, OFFER_TYPES, offerPayload(game.id, nextIndex, record), record.signature, record.signer)) continue;
+
+    const answered = firstWrite(game, history, gameKeys.offerReply(game.id, nextIndex), opponentOf(record.player));
+    const reply = answered && tryRead(answered.write.value, parseReply);
+    const signed = reply && signedBy(domain, REPLY_TYPES, replyPayload(game.id, nextIndex, record, reply), reply.signature, reply.signer);
+    const validReply = signed && reply.signer === answered!.write.sender && reply.player === opponentOf(record.player) ? reply : null;
+    const nextMove = record.kind === 'rematch' ? null : firstWrite(game, history, gameKeys.move(game.id, record.moveIndex));
+
+    let status: OfferStatus = 'pending';
+    if (nextMove && nextMove.position < stored.position) status = 'lapsed';
+    else if (validReply && (!nextMove || answered!.position < nextMove.position)) status = validReply.accepted ? 'accepted' : 'declined';
+    else if (nextMove) status = 'lapsed';
+    offers.push({ ...record, index: nextIndex, status, reply: validReply });
+  }
+  return { offers, nextIndex };
+};
+
+export const describeOffer = (offer: OfferRecord): string => {
+  switch (offer.kind) {
+    case 'undo':
+      return offer.count === 2 ? "Asks to take back the last two moves" : "Asks to take back the last move";
+    case 'draw':
+      return "Offers a draw";
+    case 'rematch':
+      return "Offers a rematch with colours swapped";
+  }
+};
+
+export const acceptedTakebacks = (offers: Offer[]): Takeback[] =>
+  offers
+    .filter(o => o.kind === 'undo' && o.status === 'accepted')
+    .map(o => ({ moveIndex: o.moveIndex, count: o.count! }));
+
+export const hasAcceptedDraw = (offers: Offer[]) => offers.some(o => o.kind === 'draw' && o.status === 'accepted');
+
+// `contract` must be connected to the wallet of the seat making the offer, which also signs it.
+export const makeOffer = async (contract: ethers.Contract, gameId: string, index: number, offer: UnsignedOffer) => {
+  const signature = await signOffer(contract.runner as ethers.Signer, await offerDomain(contract), gameId, index, offer);
+  await writeJson(contract, gameKeys.offer(gameId, index), { ...offer, signature });
+};
+
+export const answerOffer = async (contract: ethers.Contract, gameId: string, offer: Offer, reply: UnsignedReply) => {
+  const signature = await signReply(contract.runner as ethers.Signer, await offerDomain(contract), gameId, offer.index, offer, reply);
+  await writeJson(contract, gameKeys.offerReply(gameId, offer.index), { ...reply, signature });
+};
@@ -0,0 +1,55 @@
+// network.ts
+// Network profiles: the chain the app runs on, its RPC endpoints, the deployed contracts and how FHE is served.
+// The profile comes from VITE_NETWORK_PROFILE, else "profile" in config.json, else sepolia. VITE_RPC_URL,
+// VITE_CONTRACT_ADDRESS and VITE_HIDDEN_MOVE_ADDRESS override the profile's values.
+import type { Chain } from "viem";
+import { hardhat, sepolia } from "wagmi/chains";
+import configJson from "./config.json";
+
+export type NetworkProfileId = 'sepolia' | 'localhost';
+
+// 'relayer' encrypts and decrypts through Zama's relayer; 'mock' uses the fhevm mock of a local hardhat node.
+export type FheMode = 'relayer' | 'mock';
+
+export interface NetworkProfile {
+  id: NetworkProfileId;
+  chain: Chain;
+  rpcUrls: string[];
+  fheMode: FheMode;
+  contractAddress: string;
+  hiddenMoveAddress: string;
+}
+
+const PROFILES: Record<NetworkProfileId, Omit<NetworkProfile, 'contractAddress' | 'hiddenMoveAddress'>> = {
+  sepolia: {
+    id: 'sepolia',
+    chain: sepolia,
+    rpcUrls: [
+      "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
+      "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
+      "https://rpc.sepolia.org",
+      "https://rpc2.sepolia.org",
+      "https://eth-sepolia.public.blastapi.io"
+    ],
+    fheMode: 'relayer'
+  },
+  // `npx hardhat node` followed by `npx hardhat run deploy/deploy.ts --network localhost`.
+  localhost: {
+    id: 'localhost',
+    chain: hardhat,
+    rpcUrls: ["http://127.0.0.1:8545"],
+    fheMode: 'mock'
+  }
+};
+
+const isProfileId = (id: unknown): id is NetworkProfileId => typeof id === 'string' && id in PROFILES;
+
+const env = import.meta.env;
+const profileId = [env.VITE_NETWORK_PROFILE, (configJson as { profile?: string }).profile].find(isProfileId) ?? 'sepolia';
+
+export const network: NetworkProfile = {
+  ...PROFILES[profileId],
+  rpcUrls: env.VITE_RPC_URL ? [env.VITE_RPC_URL] : PROFILES[profileId].rpcUrls,
+  contractAddress: env.VITE_CONTRACT_ADDRESS || configJson.contractAddress,
+  hiddenMoveAddress: env.VITE_HIDDEN_MOVE_ADDRESS || configJson.hiddenMoveAddress
+};
@@ -0,0 +1,171 @@
+// sync.ts
+// Live updates for the game being viewed. Writes to its UniversalAdapter keys and GoFHEHiddenMoveFHE events
+// for it trigger a reload. While the subscriptions are up a block-number poll only checks that the RPC is
+// alive, and the watcher reconnects with backoff once it is not; while subscribing fails, every new block
+// triggers a reload instead.
+import { ethers } from "ethers";
+import { ABI, config, getReadProvider } from "./contract";
+import { isGameKey } from "./games";
+import { hiddenMovesEnabled } from "./fhe";
+import { GoHiddenMoveClient } from "../../../src/client/GoHiddenMoveClient";
+
+// A move and the move list it is appended to arrive as separate events but need one reload.
+const DEBOUNCE_MS = 500;
+const POLL_INTERVAL_MS = 30000;
+const FALLBACK_POLL_INTERVAL_MS = 8000;
+const MIN_RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+
+export interface GameWatchOptions {
+  // Reloads the game; the watcher never runs two reloads at once.
+  onChange: () => Promise<void>;
+  // Whether the game has hidden moves in this batch, so its decryption concerns the game.
+  watchesBatch: (batchId: number) => boolean;
+  // Whether GoFHEHiddenMoveFHE events under this game key concern the game. The key is only known once
+  // both seats are taken, so it is checked per event rather than filtered on when subscribing.
+  watchesHiddenGame: (gameKey: string) => boolean;
+}
+
+const subscribe = async (
+  provider: ethers.JsonRpcProvider,
+  gameId: string,
+  notify: () => void,
+  { watchesBatch, watchesHiddenGame }: Pick<GameWatchOptions, 'watchesBatch' | 'watchesHiddenGame'>
+): Promise<Array<() => void>> => {
+  const unsubscribers: Array<() => void> = [];
+  // Listeners registered before a failure are removed again rather than left running.
+  try {
+    const adapter = new ethers.Contract(config.contractAddress, ABI, provider);
+    const onStored = (sender: string, key: string) => { if (isGameKey(gameId, key)) notify(); };
+    await adapter.on('DataStored', onStored);
+    unsubscribers.push(() => { void adapter.off('DataStored', onStored); });
+
+    if (hiddenMovesEnabled()) {
+      const client = new GoHiddenMoveClient(config.hiddenMoveAddress, provider);
+      unsubscribers.push(client.onHiddenMoveSubmitted(submission => { if (watchesHiddenGame(submission.gameId)) notify(); }));
+      unsubscribers.push(client.onHiddenStoneRevealed(reveal => { if (watchesHiddenGame(reveal.gameId)) notify(); }));
+      unsubscribers.push(client.onMoveDecrypted(decryption => { if (watchesBatch(decryption.batchId)) notify(); }));
+      unsubscribers.push(client.onDecryptionCompleted(completion => { if (watchesBatch(completion.batchId)) notify(); }));
+    }
+  } catch (e) {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    throw e;
+  }
+  return unsubscribers;
+};
+
+// Starts watching a game; the returned function stops it again.
+export const watchGame = (gameId: string, { onChange, watchesBatch, watchesHiddenGame }: GameWatchOptions): (() => void) => {
+  let stopped = false;
+  let provider: ethers.JsonRpcProvider | null = null;
+  let unsubscribers: Array<() => void> = [];
+  let subscribed = false;
+  let connectedBefore = false;
+  let lastBlock = -1;
+  let reconnectDelay = MIN_RECONNECT_DELAY_MS;
+  let reloading = false;
+  let reloadQueued = false;
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const reload = async () => {
+    if (reloading) { reloadQueued = true; return; }
+    reloading = true;
+    try {
+      await onChange();
+    } catch (e) {
+      console.error("Error reloading game:", e);
+    } finally {
+      reloading = false;
+    }
+    if (reloadQueued && !stopped) {
+      reloadQueued = false;
+      void reload();
+    }
+  };
+
+  const notify = () => {
+    if (stopped) return;
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => { void reload(); }, DEBOUNCE_MS);
+  };
+
+  const teardown = () => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    unsubscribers = [];
+    subscribed = false;
+    clearTimeout(pollTimer);
+    provider?.destroy();
+    provider = null;
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped) return;
+    clearTimeout(reconnectTimer);
+    reconnectTimer = setTimeout(() => {
+      teardown();
+      void connect();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  };
+
+  const poll = async () => {
+    if (stopped || !provider) return;
+    try {
+      const block = await provider.getBlockNumber();
+      if (block !== lastBlock) {
+        lastBlock = block;
+        // The subscriptions already report this game's changes; reloading on every block would redo all
+        // the log, relayer and decryption reads for nothing.
+        if (!subscribed) notify();
+      }
+    } catch (e) {
+      console.warn("Lost connection to the RPC, reconnecting:", e);
+      teardown();
+      scheduleReconnect();
+      return;
+    }
+    schedulePoll();
+  };
+
+  const schedulePoll = () => {
+    clearTimeout(pollTimer);
+    pollTimer = setTimeout(() => { void poll(); }, subscribed ? POLL_INTERVAL_MS : FALLBACK_POLL_INTERVAL_MS);
+  };
+
+  const connect = async () => {
+    if (stopped) return;
+    try {
+      provider = await getReadProvider();
+      lastBlock = await provider.getBlockNumber();
+    } catch (e) {
+      console.warn("No RPC available for live updates, retrying:", e);
+      teardown();
+      scheduleReconnect();
+      return;
+    }
+    // Whatever happened while disconnected is only in the chain state now.
+    if (connectedBefore) notify();
+    connectedBefore = true;
+
+    try {
+      unsubscribers = await subscribe(provider, gameId, notify, { watchesBatch, watchesHiddenGame });
+      subscribed = true;
+      reconnectDelay = MIN_RECONNECT_DELAY_MS;
+    } catch (e) {
+      console.warn("Event subscription failed, polling instead:", e);
+      scheduleReconnect();
+    }
+    if (stopped) teardown();
+    else schedulePoll();
+  };
+
+  void connect();
+  return () => {
+    stopped = true;
+    clearTimeout(debounceTimer);
+    clearTimeout(reconnectTimer);
+    teardown();
+  };
+};
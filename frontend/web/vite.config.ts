@@ -3,6 +3,15 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  // The GoFHEHiddenMoveFHE client and its typechain bindings live at the repository root.
+  server: {
+    fs: {
+      allow: ['../..']
+    }
+  },
+  resolve: {
+    dedupe: ['ethers']
+  },
   define: {
     'process.env': process.env
   },
@@ -0,0 +1,443 @@
+// src/client/GoHiddenMoveClient.ts
+// Typed wrapper around GoFHEHiddenMoveFHE shared by the frontend and the Hardhat tasks. Inputs are
+// encrypted by the caller: the relayer SDK in the browser, the fhevm plugin under Hardhat.
+import type {
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  LogDescription,
+  TransactionReceipt
+} from "ethers";
+import type { GoFHEHiddenMoveFHE } from "../../types/contracts/Go_FHE_HiddenMove.sol/GoFHEHiddenMoveFHE";
+import { GoFHEHiddenMoveFHE__factory } from "../../types/factories/contracts/Go_FHE_HiddenMove.sol/GoFHEHiddenMoveFHE__factory";
+
+export type HiddenMovePolicy = GoFHEHiddenMoveFHE.HiddenMovePolicyStruct;
+
+export interface EncryptedHiddenMoveInput {
+  // Handles for x, y and revealStep, in that order, all bound to inputProof.
+  handles: BytesLike[];
+  inputProof: BytesLike;
+}
+
+export interface HiddenMoveSubmission {
+  player: string;
+  gameId: string;
+  stoneIndex: number;
+  batchId: number;
+  index: number;
+  xCt: string;
+  yCt: string;
+  revealStepCt: string;
+}
+
+export interface DecryptedMove {
+  x: number;
+  y: number;
+  revealStep: number;
+}
+
+export interface DecryptionCompletion {
+  requestId: bigint;
+  batchId: number;
+  moves: DecryptedMove[];
+}
+
+export interface MoveDecryption {
+  requestId: bigint;
+  batchId: number;
+  index: number;
+  move: DecryptedMove;
+}
+
+export interface PlacementCheckRecord {
+  gameId: string;
+  player: string;
+  // Moves played in the game before the stone.
+  moveIndex: number;
+  x: number;
+  y: number;
+  blocked: string;
+}
+
+// Mirrors GoFHEHiddenMoveFHE.MoveKind.
+export type RecordedMoveKind = 'stone' | 'hidden' | 'pass';
+
+const RECORDED_MOVE_KINDS: RecordedMoveKind[] = ['stone', 'hidden', 'pass'];
+
+export interface MoveRecord {
+  kind: RecordedMoveKind;
+  player: string;
+  // The placement check of a stone, or the stone index of a hidden move.
+  ref: number;
+}
+
+export interface HiddenStoneRecord {
+  player: string;
+  active: boolean;
+  batchId: number;
+  index: number;
+  xCt: string;
+  yCt: string;
+  revealStepCt: string;
+}
+
+export interface HiddenGameInfo {
+  black: string;
+  white: string;
+  toMove: string;
+  moveCount: number;
+  registered: boolean;
+  whiteMovesFirst: boolean;
+  boardSize: number;
+  policy: {
+    interval: number;
+    maxPerPlayer: number;
+    maxUnrevealed: number;
+    minRevealDelay: number;
+    maxRevealDelay: number;
+  };
+}
+
+export interface HiddenStoneReveal {
+  gameId: string;
+  stoneIndex: number;
+  x: number;
+  y: number;
+  // Moves played when the stone became public.
+  moveCount: number;
+}
+
+export type GoHiddenMoveErrorName =
+  | 'NotOwner'
+  | 'NotProvider'
+  | 'PausedError'
+  | 'CooldownActive'
+  | 'BatchNotOpen'
+  | 'BatchAlreadyOpen'
+  | 'InvalidBatchId'
+  | 'ReplayDetected'
+  | 'StateMismatch'
+  | 'InvalidProof'
+  | 'NotInitialized'
+  | 'NotMoveOwner'
+  | 'InvalidMoveIndex'
+  | 'InvalidStone'
+  | 'GameAlreadyRegistered'
+  | 'GameNotRegistered'
+  | 'NotAPlayer'
+  | 'NotYourTurn'
+  | 'UnknownRequest'
+  | 'InvalidPolicy'
+  | 'InvalidBoardSize'
+  | 'InvalidOpponent'
+  | 'InvalidTakeback'
+  | 'NoTakeback'
+  | 'HiddenMoveNotDue'
+  | 'HiddenMoveQuotaReached'
+  | 'TooManyUnrevealed';
+
+export const GO_HIDDEN_MOVE_ERROR_MESSAGES: Record<GoHiddenMoveErrorName, string> = {
+  NotOwner: "Only the contract owner can do this",
+  NotProvider: "Only a decryption provider can do this",
+  PausedError: "The contract is paused",
+  CooldownActive: "Please wait for the cooldown before sending another request",
+  BatchNotOpen: "No hidden move batch is open",
+  BatchAlreadyOpen: "A hidden move batch is already open",
+  InvalidBatchId: "Unknown or empty batch",
+  ReplayDetected: "This decryption has already been processed",
+  StateMismatch: "The encrypted moves changed after decryption was requested",
+  InvalidProof: "Invalid decryption proof",
+  NotInitialized: "Encrypted value is not initialized",
+  NotMoveOwner: "Only the owner of these moves can decrypt them",
+  InvalidMoveIndex: "Unknown move in this batch",
+  InvalidStone: "Stones must be played on the board",
+  GameAlreadyRegistered: "This game is already registered",
+  GameNotRegistered: "This game is not registered for hidden moves",
+  NotAPlayer: "You are not seated in this game",
+  NotYourTurn: "It's not your turn",
+  UnknownRequest: "Unknown decryption request",
+  InvalidPolicy: "Invalid hidden move policy",
+  InvalidBoardSize: "Unsupported board size",
+  InvalidOpponent: "The opponent must be another address",
+  InvalidTakeback: "Only your last move, or it and the reply to it, can be taken back",
+  NoTakeback: "Your opponent has no matching takeback request",
+  HiddenMoveNotDue: "Hidden moves are not allowed on this move",
+  HiddenMoveQuotaReached: "You have used all your hidden moves",
+  TooManyUnrevealed: "Too many of your hidden stones are still unrevealed"
+};
+
+const isErrorName = (name: unknown): name is GoHiddenMoveErrorName =>
+  typeof name === 'string' && name in GO_HIDDEN_MOVE_ERROR_MESSAGES;
+
+// A custom error reverted by GoFHEHiddenMoveFHE; the message is readable, errorName is the Solidity name.
+export class GoHiddenMoveError extends Error {
+  constructor(readonly errorName: GoHiddenMoveErrorName, readonly args: unknown[], cause?: unknown) {
+    super(GO_HIDDEN_MOVE_ERROR_MESSAGES[errorName], { cause });
+    this.name = 'GoHiddenMoveError';
+  }
+}
+
+const toDecryptedMove = (move: GoFHEHiddenMoveFHE.DecryptedMoveStructOutput): DecryptedMove => ({
+  x: Number(move.x),
+  y: Number(move.y),
+  revealStep: Number(move.revealStep)
+});
+
+export class GoHiddenMoveClient {
+  readonly contract: GoFHEHiddenMoveFHE;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = GoFHEHiddenMoveFHE__factory.connect(address, runner);
+  }
+
+  // Ethers already decodes reverts of known errors; raw revert data is parsed as a fallback.
+  decodeError(error: unknown): GoHiddenMoveError | null {
+    const e = error as any;
+    if (e?.revert && isErrorName(e.revert.name)) return new GoHiddenMoveError(e.revert.name, [...e.revert.args], error);
+
+    const data = e?.data ?? e?.info?.error?.data ?? e?.error?.data;
+    if (typeof data !== 'string') return null;
+    try {
+      const parsed = this.contract.interface.parseError(data);
+      return parsed && isErrorName(parsed.name) ? new GoHiddenMoveError(parsed.name, [...parsed.args], error) : null;
+    } catch (decodeFailure) {
+      return null;
+    }
+  }
+
+  private async send(call: () => Promise<ContractTransactionResponse>): Promise<TransactionReceipt> {
+    try {
+      const receipt = await (await call()).wait();
+      if (!receipt) throw new Error("Transaction was not mined");
+      return receipt;
+    } catch (e) {
+      throw this.decodeError(e) ?? e;
+    }
+  }
+
+  private async read<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (e) {
+      throw this.decodeError(e) ?? e;
+    }
+  }
+
+  private findEvent(receipt: TransactionReceipt, name: string): LogDescription {
+    for (const log of receipt.logs) {
+      const event = this.contract.interface.parseLog(log);
+      if (event?.name === name) return event;
+    }
+    throw new Error(`${name} event not found in receipt`);
+  }
+
+  async openBatch(): Promise<number> {
+    const receipt = await this.send(() => this.contract.openBatch());
+    return Number(this.findEvent(receipt, 'BatchOpened').args.batchId);
+  }
+
+  async closeBatch(): Promise<void> {
+    await this.send(() => this.contract.closeBatch());
+  }
+
+  async submitHiddenMove(gameId: BytesLike, input: EncryptedHiddenMoveInput): Promise<HiddenMoveSubmission> {
+    const [x, y, revealStep] = input.handles;
+    const receipt = await this.send(() => this.contract.submitHiddenMove(gameId, x, y, revealStep, input.inputProof));
+    const { args } = this.findEvent(receipt, 'HiddenMoveSubmitted');
+    return {
+      player: args.player,
+      gameId: args.gameId,
+      stoneIndex: Number(args.stoneIndex),
+      batchId: Number(args.batchId),
+      index: Number(args.index),
+      xCt: args.xCt,
+      yCt: args.yCt,
+      revealStepCt: args.revealStepCt
+    };
+  }
+
+  async requestBatchDecryption(batchId: BigNumberish): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.requestBatchDecryption(batchId));
+    return this.findEvent(receipt, 'DecryptionRequested').args.requestId;
+  }
+
+  async requestMoveDecryption(batchId: BigNumberish, indices: BigNumberish[]): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.requestMoveDecryption(batchId, indices));
+    return this.findEvent(receipt, 'MoveDecryptionRequested').args.requestId;
+  }
+
+  // Empty until the whole batch has been decrypted.
+  async decryptedMoves(batchId: BigNumberish): Promise<DecryptedMove[]> {
+    const moves = await this.read(() => this.contract.getDecryptedMoves(batchId));
+    return moves.map(toDecryptedMove);
+  }
+
+  // A move decrypted on its own or as part of a subset; null until then.
+  async decryptedMove(batchId: BigNumberish, index: BigNumberish): Promise<DecryptedMove | null> {
+    if (!(await this.read(() => this.contract.isMoveDecrypted(batchId, index)))) return null;
+    return toDecryptedMove(await this.read(() => this.contract.decryptedMoveAt(batchId, index)));
+  }
+
+  // Returns the key the contract stores the game under, which every other game call takes.
+  async openGame(
+    label: BytesLike,
+    opponent: string,
+    asBlack: boolean,
+    whiteMovesFirst: boolean,
+    boardSize: number,
+    policy: HiddenMovePolicy
+  ): Promise<string> {
+    const receipt = await this.send(() =>
+      this.contract.openGame(label, opponent, asBlack, whiteMovesFirst, boardSize, policy)
+    );
+    return this.findEvent(receipt, 'GameOpened').args.gameId;
+  }
+
+  async gameInfo(gameId: BytesLike): Promise<HiddenGameInfo> {
+    const game = await this.read(() => this.contract.games(gameId));
+    return {
+      black: game.black,
+      white: game.white,
+      toMove: game.toMove,
+      moveCount: Number(game.moveCount),
+      registered: game.registered,
+      whiteMovesFirst: game.whiteMovesFirst,
+      boardSize: Number(game.boardSize),
+      policy: {
+        interval: Number(game.policy.interval),
+        maxPerPlayer: Number(game.policy.maxPerPlayer),
+        maxUnrevealed: Number(game.policy.maxUnrevealed),
+        minRevealDelay: Number(game.policy.minRevealDelay),
+        maxRevealDelay: Number(game.policy.maxRevealDelay)
+      }
+    };
+  }
+
+  async passTurn(gameId: BytesLike): Promise<void> {
+    await this.send(() => this.contract.passTurn(gameId));
+  }
+
+  // Asks to take back the caller's last `count` moves; the opponent has to accept before any move is played.
+  async requestTakeback(gameId: BytesLike, count: number): Promise<void> {
+    await this.send(() => this.contract.requestTakeback(gameId, count));
+  }
+
+  async acceptTakeback(gameId: BytesLike, count: number): Promise<void> {
+    await this.send(() => this.contract.acceptTakeback(gameId, count));
+  }
+
+  // Every move the contract counted for the game, in order.
+  async moveRecords(gameId: BytesLike): Promise<MoveRecord[]> {
+    const records = await this.read(() => this.contract.getMoveRecords(gameId));
+    return records.map(record => ({
+      kind: RECORDED_MOVE_KINDS[Number(record.kind)],
+      player: record.player,
+      ref: Number(record.ref)
+    }));
+  }
+
+  async hiddenStone(gameId: BytesLike, stoneIndex: BigNumberish): Promise<HiddenStoneRecord> {
+    const stone = await this.read(() => this.contract.hiddenStones(gameId, stoneIndex));
+    return {
+      player: stone.player,
+      active: stone.active,
+      batchId: Number(stone.batchId),
+      index: Number(stone.batchIndex),
+      xCt: stone.x,
+      yCt: stone.y,
+      revealStepCt: stone.revealStep
+    };
+  }
+
+  // Plays a visible stone; the returned flag says whether an opponent's hidden stone blocked it.
+  async placeStone(gameId: BytesLike, x: number, y: number): Promise<{ checkId: number; blockedCt: string }> {
+    const receipt = await this.send(() => this.contract.placeStone(gameId, x, y));
+    const { args } = this.findEvent(receipt, 'PlacementChecked');
+    return { checkId: Number(args.checkId), blockedCt: args.blockedCt };
+  }
+
+  async placementCheck(checkId: BigNumberish): Promise<PlacementCheckRecord> {
+    const record = await this.read(() => this.contract.placementChecks(checkId));
+    return {
+      gameId: record.gameId,
+      player: record.player,
+      moveIndex: Number(record.moveIndex),
+      x: Number(record.x),
+      y: Number(record.y),
+      blocked: record.blocked
+    };
+  }
+
+  async hiddenStoneReveals(gameId: BytesLike, fromBlock?: number): Promise<HiddenStoneReveal[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.HiddenStoneRevealed(gameId), fromBlock);
+    return logs.map(log => ({
+      gameId: log.args.gameId,
+      stoneIndex: Number(log.args.stoneIndex),
+      x: Number(log.args.x),
+      y: Number(log.args.y),
+      moveCount: Number(log.args.moveCount)
+    }));
+  }
+
+  // Subscriptions return a function that removes the listener again.
+  onHiddenMoveSubmitted(listener: (submission: HiddenMoveSubmission) => void, gameId?: BytesLike): () => void {
+    const filter = this.contract.filters.HiddenMoveSubmitted(undefined, gameId);
+    const handler = (
+      player: string,
+      submittedGameId: string,
+      stoneIndex: bigint,
+      batchId: bigint,
+      index: bigint,
+      xCt: string,
+      yCt: string,
+      revealStepCt: string
+    ) => listener({
+      player,
+      gameId: submittedGameId,
+      stoneIndex: Number(stoneIndex),
+      batchId: Number(batchId),
+      index: Number(index),
+      xCt,
+      yCt,
+      revealStepCt
+    });
+    void this.contract.on(filter, handler);
+    return () => { void this.contract.off(filter, handler); };
+  }
+
+  onHiddenStoneRevealed(listener: (reveal: HiddenStoneReveal) => void, gameId?: BytesLike): () => void {
+    const filter = this.contract.filters.HiddenStoneRevealed(gameId);
+    const handler = (revealedGameId: string, stoneIndex: bigint, x: bigint, y: bigint, moveCount: bigint) =>
+      listener({
+        gameId: revealedGameId,
+        stoneIndex: Number(stoneIndex),
+        x: Number(x),
+        y: Number(y),
+        moveCount: Number(moveCount)
+      });
+    void this.contract.on(filter, handler);
+    return () => { void this.contract.off(filter, handler); };
+  }
+
+  onMoveDecrypted(listener: (decryption: MoveDecryption) => void, batchId?: BigNumberish): () => void {
+    const filter = this.contract.filters.MoveDecrypted(undefined, batchId);
+    const handler = (requestId: bigint, decryptedBatchId: bigint, index: bigint, x: bigint, y: bigint, revealStep: bigint) =>
+      listener({
+        requestId,
+        batchId: Number(decryptedBatchId),
+        index: Number(index),
+        move: { x: Number(x), y: Number(y), revealStep: Number(revealStep) }
+      });
+    void this.contract.on(filter, handler);
+    return () => { void this.contract.off(filter, handler); };
+  }
+
+  onDecryptionCompleted(listener: (completion: DecryptionCompletion) => void): () => void {
+    const event = this.contract.getEvent('DecryptionCompleted');
+    const handler = (requestId: bigint, batchId: bigint, moves: GoFHEHiddenMoveFHE.DecryptedMoveStructOutput[]) =>
+      listener({ requestId, batchId: Number(batchId), moves: moves.map(toDecryptedMove) });
+    void this.contract.on(event, handler);
+    return () => { void this.contract.off(event, handler); };
+  }
+}
@@ -0,0 +1,91 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+/**
+ * Examples (the address defaults to hiddenMoveAddress in frontend/web/src/config.json):
+ *
+ *   npx hardhat --network sepolia task:hidden-open-batch
+ *   npx hardhat --network sepolia task:hidden-submit-move --game my-game --opener 0x... --x 3 --y 4 --reveal 20
+ *   npx hardhat --network sepolia task:hidden-request-decryption --batch 1
+ *   npx hardhat --network sepolia task:hidden-request-decryption --batch 1 --indices 0,2
+ *   npx hardhat --network sepolia task:hidden-decrypted-moves --batch 1
+ *   npx hardhat --network sepolia task:hidden-watch
+ */
+
+const frontendConfigPath = path.join(__dirname, "..", "frontend", "web", "src", "config.json");
+
+async function getClient(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const address: string =
+    taskArguments.address || JSON.parse(fs.readFileSync(frontendConfigPath, "utf8")).hiddenMoveAddress;
+  if (!address) throw new Error("No GoFHEHiddenMoveFHE address given and none in frontend config.json");
+  // The client is built on the generated typings, which `hardhat typechain` has yet to write when it
+  // loads this file, so it is only loaded once a task runs.
+  const { GoHiddenMoveClient } = await import("../src/client/GoHiddenMoveClient");
+  const [signer] = await hre.ethers.getSigners();
+  return { client: new GoHiddenMoveClient(address, signer), signer };
+}
+
+task("task:hidden-open-batch", "Opens a new hidden move batch")
+  .addOptionalParam("address", "Optionally specify the GoFHEHiddenMoveFHE contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { client } = await getClient(taskArguments, hre);
+    const batchId = await client.openBatch();
+    console.log(`Opened batch ${batchId}`);
+  });
+
+task("task:hidden-submit-move", "Encrypts and submits a hidden move")
+  .addOptionalParam("address", "Optionally specify the GoFHEHiddenMoveFHE contract address")
+  .addParam("game", "The game id as used by the frontend")
+  .addOptionalParam("opener", "The player who opened the game in the contract; defaults to the signer")
+  .addParam("x", "The column")
+  .addParam("y", "The row")
+  .addParam("reveal", "The move number the stone is revealed at")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { client, signer } = await getClient(taskArguments, hre);
+    await hre.fhevm.initializeCLIApi();
+
+    const input = hre.fhevm.createEncryptedInput(await client.contract.getAddress(), signer.address);
+    input.add32(parseInt(taskArguments.x)).add32(parseInt(taskArguments.y)).add32(parseInt(taskArguments.reveal));
+    const opener = taskArguments.opener || signer.address;
+    const gameId = await client.contract.gameKey(opener, hre.ethers.id(taskArguments.game));
+    const submission = await client.submitHiddenMove(gameId, await input.encrypt());
+    console.log(`Submitted hidden stone ${submission.stoneIndex} (batch ${submission.batchId}, index ${submission.index})`);
+  });
+
+task("task:hidden-request-decryption", "Requests decryption of a whole batch or of selected moves in it")
+  .addOptionalParam("address", "Optionally specify the GoFHEHiddenMoveFHE contract address")
+  .addParam("batch", "The batch id")
+  .addOptionalParam("indices", "Comma-separated move indices; the whole batch when omitted")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { client } = await getClient(taskArguments, hre);
+    const requestId = taskArguments.indices
+      ? await client.requestMoveDecryption(taskArguments.batch, taskArguments.indices.split(",").map(Number))
+      : await client.requestBatchDecryption(taskArguments.batch);
+    console.log(`Decryption request ${requestId} sent`);
+  });
+
+task("task:hidden-decrypted-moves", "Prints the decrypted moves of a batch")
+  .addOptionalParam("address", "Optionally specify the GoFHEHiddenMoveFHE contract address")
+  .addParam("batch", "The batch id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { client } = await getClient(taskArguments, hre);
+    const moves = await client.decryptedMoves(taskArguments.batch);
+    if (moves.length === 0) console.log(`Batch ${taskArguments.batch} has not been decrypted as a whole`);
+    moves.forEach((move, i) => console.log(`#${i}: (${move.x},${move.y}) reveal at ${move.revealStep}`));
+  });
+
+task("task:hidden-watch", "Logs hidden move submissions and completed batch decryptions until interrupted")
+  .addOptionalParam("address", "Optionally specify the GoFHEHiddenMoveFHE contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { client } = await getClient(taskArguments, hre);
+    client.onHiddenMoveSubmitted((s) =>
+      console.log(`HiddenMoveSubmitted: ${s.player} stone ${s.stoneIndex} in batch ${s.batchId}`),
+    );
+    client.onDecryptionCompleted((c) =>
+      console.log(`DecryptionCompleted: request ${c.requestId}, batch ${c.batchId}, ${c.moves.length} moves`),
+    );
+    console.log("Watching for events, press Ctrl+C to stop");
+    await new Promise(() => {});
+  });
@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { Move, MoveType, Player, TimeControl } from "../frontend/web/src/go/types";
+import {
+  DEFAULT_TIME_CONTROL,
+  clockOwner,
+  describeClock,
+  flaggedPlayer,
+  isValidTimeControl,
+  parseTimeControl,
+  runClocks,
+} from "../frontend/web/src/go/clock";
+
+function move(player: Player, blockTime: number, type: MoveType = "place"): Move {
+  return { type, x: 0, y: 0, player, signer: "", timestamp: 0, revealed: false, blockTime };
+}
+
+const ABSOLUTE: TimeControl = { ...DEFAULT_TIME_CONTROL, system: "absolute", mainTime: 60 };
+const FISCHER: TimeControl = { ...DEFAULT_TIME_CONTROL, system: "fischer", mainTime: 60, increment: 10 };
+const BYO_YOMI: TimeControl = { ...DEFAULT_TIME_CONTROL, system: "byo-yomi", mainTime: 60, periods: 3, periodTime: 30 };
+
+describe("Go clocks", function () {
+  it("runs on block times from the start of the game", function () {
+    const { clocks, running } = runClocks(ABSOLUTE, 100, [move("black", 110), move("white", 140)], "black", 150);
+    expect(running).to.eq("black");
+    expect(clocks.black.main).to.eq(40);
+    expect(clocks.white.main).to.eq(30);
+  });
+
+  it("adds the Fischer increment after each move", function () {
+    const { clocks } = runClocks(FISCHER, 0, [move("black", 20)], "white", 20);
+    expect(clocks.black.main).to.eq(50);
+    expect(clocks.white.main).to.eq(60);
+  });
+
+  it("spends byo-yomi periods once the main time is gone", function () {
+    const inPeriod = runClocks(BYO_YOMI, 0, [], "black", 75);
+    expect(inPeriod.clocks.black).to.deep.eq({ main: 0, periods: 3, periodLeft: 15, expired: false });
+    const periodLost = runClocks(BYO_YOMI, 0, [], "black", 100);
+    expect(periodLost.clocks.black).to.deep.eq({ main: 0, periods: 2, periodLeft: 20, expired: false });
+    expect(describeClock(BYO_YOMI, periodLost.clocks.black)).to.eq("0:20 (2 × 0:30)");
+  });
+
+  it("keeps the period for a move played inside it", function () {
+    const { clocks } = runClocks(BYO_YOMI, 0, [move("black", 80)], "white", 80);
+    expect(clocks.black).to.deep.eq({ main: 0, periods: 3, periodLeft: 30, expired: false });
+  });
+
+  it("flags the player on move once their time is up", function () {
+    const clocks = runClocks(ABSOLUTE, 0, [move("black", 10)], "white", 70);
+    expect(clocks.clocks.white.expired).to.eq(true);
+    expect(flaggedPlayer(clocks)).to.eq("white");
+    expect(describeClock(ABSOLUTE, clocks.clocks.white)).to.eq("Out of time");
+  });
+
+  it("lets a late move stand but leaves no time for the next one", function () {
+    const clocks = runClocks(ABSOLUTE, 0, [move("black", 90), move("white", 95)], "black", 95);
+    expect(clocks.clocks.black).to.deep.eq({ main: 0, periods: 0, periodLeft: 0, expired: true });
+    expect(flaggedPlayer(clocks)).to.eq("black");
+  });
+
+  it("stops the clocks after a resignation or two passes", function () {
+    expect(clockOwner([move("black", 1)], "black")).to.eq("white");
+    expect(clockOwner([move("black", 1), move("white", 2, "resign")], "black")).to.eq(null);
+    expect(clockOwner([move("black", 1, "pass"), move("white", 2, "pass")], "black")).to.eq(null);
+  });
+
+  it("falls back to no clock for unreadable settings", function () {
+    expect(isValidTimeControl({ ...BYO_YOMI, periods: 0 })).to.eq(false);
+    expect(parseTimeControl({ system: "hourglass" })).to.deep.eq(DEFAULT_TIME_CONTROL);
+    expect(parseTimeControl(undefined)).to.deep.eq(DEFAULT_TIME_CONTROL);
+    expect(parseTimeControl(FISCHER)).to.deep.eq(FISCHER);
+  });
+});
@@ -0,0 +1,589 @@
+import { GoFHEHiddenMoveFHE, GoFHEHiddenMoveFHE__factory } from "../types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const LABEL = ethers.id("game-1");
+const BOARD_SIZE = 19;
+
+// MoveKind in the contract.
+const STONE = 0n;
+const HIDDEN = 1n;
+const PASS = 2n;
+
+// Every move may be hidden, so tests can alternate hidden moves freely.
+const POLICY = {
+  interval: 1,
+  maxPerPlayer: 3,
+  maxUnrevealed: 2,
+  minRevealDelay: 2,
+  maxRevealDelay: 50,
+};
+
+async function deployFixture(signers: Signers) {
+  const factory = (await ethers.getContractFactory("GoFHEHiddenMoveFHE")) as GoFHEHiddenMoveFHE__factory;
+  const contract = (await factory.deploy()) as GoFHEHiddenMoveFHE;
+  const contractAddress = await contract.getAddress();
+
+  // Alice opens the game as black against bob; black moves first.
+  await (
+    await contract.connect(signers.alice).openGame(LABEL, signers.bob.address, true, false, BOARD_SIZE, POLICY)
+  ).wait();
+  const gameId = await contract.gameKey(signers.alice.address, LABEL);
+  await (await contract.setCooldownSeconds(1)).wait();
+  await (await contract.openBatch()).wait();
+
+  return { contract, contractAddress, gameId };
+}
+
+describe("GoFHEHiddenMoveFHE", function () {
+  let signers: Signers;
+  let contract: GoFHEHiddenMoveFHE;
+  let contractAddress: string;
+  let gameId: string;
+
+  async function submit(player: HardhatEthersSigner, x: number, y: number, revealStep: number) {
+    const input = await fhevm
+      .createEncryptedInput(contractAddress, player.address)
+      .add32(x)
+      .add32(y)
+      .add32(revealStep)
+      .encrypt();
+    return contract
+      .connect(player)
+      .submitHiddenMove(gameId, input.handles[0], input.handles[1], input.handles[2], input.inputProof);
+  }
+
+  // Plays a visible stone and returns whether the contract found it on an opponent's hidden stone.
+  async function place(player: HardhatEthersSigner, x: number, y: number) {
+    await (await contract.connect(player).placeStone(gameId, x, y)).wait();
+    const check = await contract.placementChecks((await contract.getMoveRecords(gameId)).at(-1)!.ref);
+    return fhevm.publicDecryptEbool(check.blocked);
+  }
+
+  async function revealedStones() {
+    const logs = await contract.queryFilter(contract.filters.HiddenStoneRevealed(gameId));
+    return logs.map((log) => [log.args.stoneIndex, log.args.x, log.args.y, log.args.moveCount]);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, contractAddress, gameId } = await deployFixture(signers));
+  });
+
+  describe("games", function () {
+    it("seats the opener and the opponent they name under a key of their own", async function () {
+      expect(gameId).to.eq(
+        ethers.keccak256(
+          ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [signers.alice.address, LABEL]),
+        ),
+      );
+      const game = await contract.games(gameId);
+      expect([game.black, game.white, game.toMove]).to.deep.eq([
+        signers.alice.address,
+        signers.bob.address,
+        signers.alice.address,
+      ]);
+      await expect(submit(signers.deployer, 3, 4, 10)).to.be.revertedWithCustomError(contract, "NotAPlayer");
+    });
+
+    it("keeps another opener's game with the same label apart", async function () {
+      const opened = contract
+        .connect(signers.deployer)
+        .openGame(LABEL, signers.bob.address, false, true, BOARD_SIZE, POLICY);
+      const deployerGameId = await contract.gameKey(signers.deployer.address, LABEL);
+      await expect(opened)
+        .to.emit(contract, "GameOpened")
+        .withArgs(deployerGameId, signers.deployer.address, LABEL, false, Object.values(POLICY));
+      expect((await contract.games(gameId)).black).to.eq(signers.alice.address);
+      expect((await contract.games(deployerGameId)).toMove).to.eq(signers.deployer.address);
+    });
+
+    it("rejects reopening a game or playing against oneself", async function () {
+      const alice = contract.connect(signers.alice);
+      await expect(
+        alice.openGame(LABEL, signers.bob.address, true, false, BOARD_SIZE, POLICY),
+      ).to.be.revertedWithCustomError(contract, "GameAlreadyRegistered");
+      const other = ethers.id("game-2");
+      await expect(
+        alice.openGame(other, signers.alice.address, true, false, BOARD_SIZE, POLICY),
+      ).to.be.revertedWithCustomError(contract, "InvalidOpponent");
+      await expect(
+        alice.openGame(other, ethers.ZeroAddress, true, false, BOARD_SIZE, POLICY),
+      ).to.be.revertedWithCustomError(contract, "InvalidOpponent");
+    });
+
+    it("rejects policies without a move interval or a reveal delay window", async function () {
+      const alice = contract.connect(signers.alice);
+      const other = ethers.id("game-2");
+      for (const policy of [
+        { ...POLICY, interval: 0 },
+        { ...POLICY, minRevealDelay: 0 },
+        { ...POLICY, minRevealDelay: 5, maxRevealDelay: 4 },
+      ]) {
+        await expect(
+          alice.openGame(other, signers.bob.address, true, false, BOARD_SIZE, policy),
+        ).to.be.revertedWithCustomError(contract, "InvalidPolicy");
+      }
+    });
+
+    it("rejects board sizes the game cannot be played on", async function () {
+      const alice = contract.connect(signers.alice);
+      const other = ethers.id("game-2");
+      for (const size of [0, 26]) {
+        await expect(
+          alice.openGame(other, signers.bob.address, true, false, size, POLICY),
+        ).to.be.revertedWithCustomError(contract, "InvalidBoardSize");
+      }
+    });
+
+    it("only allows hidden moves on the policy's move numbers", async function () {
+      const other = ethers.id("game-2");
+      await (
+        await contract
+          .connect(signers.alice)
+          .openGame(other, signers.bob.address, true, false, BOARD_SIZE, { ...POLICY, interval: 2 })
+      ).wait();
+      gameId = await contract.gameKey(signers.alice.address, other);
+      await expect(submit(signers.alice, 3, 4, 10)).to.be.revertedWithCustomError(contract, "HiddenMoveNotDue");
+      await (await contract.connect(signers.alice).passTurn(gameId)).wait();
+      await expect(submit(signers.bob, 3, 4, 10)).to.emit(contract, "HiddenMoveSubmitted");
+    });
+  });
+
+  describe("moves", function () {
+    it("records every move in the call that passes the turn", async function () {
+      await (await submit(signers.alice, 3, 4, 10)).wait();
+      await expect(contract.connect(signers.alice).passTurn(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "NotYourTurn",
+      );
+      await expect(contract.connect(signers.bob).passTurn(gameId))
+        .to.emit(contract, "MoveAdvanced")
+        .withArgs(gameId, 2);
+      await expect(contract.connect(signers.alice).placeStone(gameId, 5, 6))
+        .to.emit(contract, "PlacementChecked")
+        .withArgs(gameId, signers.alice.address, 0, 2, 5, 6, anyValue);
+
+      const records = await contract.getMoveRecords(gameId);
+      expect(records.map((r) => [r.kind, r.player, r.ref])).to.deep.eq([
+        [HIDDEN, signers.alice.address, 0n],
+        [PASS, signers.bob.address, 0n],
+        [STONE, signers.alice.address, 0n],
+      ]);
+      const game = await contract.games(gameId);
+      expect([game.moveCount, game.toMove]).to.deep.eq([3n, signers.bob.address]);
+    });
+
+    it("only lets the player to move place a stone", async function () {
+      await expect(contract.connect(signers.bob).placeStone(gameId, 3, 4)).to.be.revertedWithCustomError(
+        contract,
+        "NotYourTurn",
+      );
+      await expect(contract.connect(signers.deployer).placeStone(gameId, 3, 4)).to.be.revertedWithCustomError(
+        contract,
+        "NotAPlayer",
+      );
+    });
+
+    it("rejects stones off the board", async function () {
+      const alice = contract.connect(signers.alice);
+      await expect(alice.placeStone(gameId, BOARD_SIZE, 0)).to.be.revertedWithCustomError(contract, "InvalidStone");
+      await expect(alice.placeStone(gameId, 0, BOARD_SIZE)).to.be.revertedWithCustomError(contract, "InvalidStone");
+    });
+
+    it("blocks a stone played on an opponent's hidden stone", async function () {
+      await (await submit(signers.alice, 3, 4, 10)).wait();
+      expect(await place(signers.bob, 3, 5)).to.eq(false);
+      await (await submit(signers.alice, 7, 7, 10)).wait();
+      expect(await place(signers.bob, 3, 4)).to.eq(true);
+      // A player's own hidden stones never block them.
+      expect(await place(signers.alice, 3, 4)).to.eq(false);
+
+      const check = await contract.placementChecks(1);
+      expect([check.player, check.moveIndex, check.x, check.y]).to.deep.eq([signers.bob.address, 3n, 3n, 4n]);
+    });
+  });
+
+  describe("takebacks", function () {
+    it("takes back the requester's move and its reply once the opponent accepts", async function () {
+      await (await contract.connect(signers.alice).placeStone(gameId, 3, 4)).wait();
+      await (await submit(signers.bob, 5, 6, 10)).wait();
+      await expect(contract.connect(signers.alice).requestTakeback(gameId, 2))
+        .to.emit(contract, "TakebackRequested")
+        .withArgs(gameId, signers.alice.address, 2, 2);
+      await expect(contract.connect(signers.bob).acceptTakeback(gameId, 2))
+        .to.emit(contract, "TakebackAccepted")
+        .withArgs(gameId, 0);
+
+      expect(await contract.getMoveRecords(gameId)).to.have.length(0);
+      const game = await contract.games(gameId);
+      expect([game.moveCount, game.toMove]).to.deep.eq([0n, signers.alice.address]);
+      // Bob's hidden stone never stood: it blocks nothing and no longer counts against his quotas.
+      expect(await contract.unrevealedStones(gameId, signers.bob.address)).to.eq(0);
+      expect(await contract.hiddenMovesPlayed(gameId, signers.bob.address)).to.eq(0);
+      expect(await place(signers.alice, 5, 6)).to.eq(false);
+    });
+
+    it("only takes back the requester's own last move", async function () {
+      await (await contract.connect(signers.alice).passTurn(gameId)).wait();
+      await expect(contract.connect(signers.bob).requestTakeback(gameId, 1)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidTakeback",
+      );
+      await expect(contract.connect(signers.alice).requestTakeback(gameId, 2)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidTakeback",
+      );
+      await (await contract.connect(signers.alice).requestTakeback(gameId, 1)).wait();
+      await expect(contract.connect(signers.alice).acceptTakeback(gameId, 1)).to.be.revertedWithCustomError(
+        contract,
+        "NoTakeback",
+      );
+      await expect(contract.connect(signers.bob).acceptTakeback(gameId, 2)).to.be.revertedWithCustomError(
+        contract,
+        "NoTakeback",
+      );
+    });
+
+    it("lets a request lapse once another move is played", async function () {
+      await (await contract.connect(signers.alice).passTurn(gameId)).wait();
+      await (await contract.connect(signers.alice).requestTakeback(gameId, 1)).wait();
+      await (await contract.connect(signers.bob).passTurn(gameId)).wait();
+      await expect(contract.connect(signers.bob).acceptTakeback(gameId, 1)).to.be.revertedWithCustomError(
+        contract,
+        "NoTakeback",
+      );
+    });
+  });
+
+  describe("reveals", function () {
+    it("reveals a hidden stone once the game reaches its reveal step", async function () {
+      // Played on move 1, so the earliest reveal is move 1 + minRevealDelay.
+      await (await submit(signers.alice, 3, 4, 3)).wait();
+      await (await contract.connect(signers.bob).passTurn(gameId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await revealedStones()).to.deep.eq([]);
+      expect(await contract.unrevealedStones(gameId, signers.alice.address)).to.eq(1);
+
+      await (await contract.connect(signers.alice).passTurn(gameId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await revealedStones()).to.deep.eq([[0n, 3n, 4n, 3n]]);
+      expect(await contract.unrevealedStones(gameId, signers.alice.address)).to.eq(0);
+      expect((await contract.hiddenStones(gameId, 0)).active).to.eq(false);
+      // The stone is on the public board now and no longer blocks the point.
+      expect(await place(signers.bob, 3, 4)).to.eq(false);
+    });
+
+    for (const [name, x] of [
+      ["off the board", BOARD_SIZE],
+      ["at the not-matured marker", 2 ** 32 - 1],
+    ] as const) {
+      it(`reveals a hidden stone ${name} as early as the policy allows`, async function () {
+        await (await submit(signers.alice, x, 4, 40)).wait();
+        expect(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint32,
+            (await contract.hiddenStones(gameId, 0)).x,
+            contractAddress,
+            signers.alice,
+          ),
+        ).to.eq(BOARD_SIZE);
+        await (await contract.connect(signers.bob).passTurn(gameId)).wait();
+        await (await contract.connect(signers.alice).passTurn(gameId)).wait();
+        await fhevm.awaitDecryptionOracle();
+
+        expect(await revealedStones()).to.deep.eq([[0n, BigInt(BOARD_SIZE), BigInt(BOARD_SIZE), 3n]]);
+        expect(await contract.unrevealedStones(gameId, signers.alice.address)).to.eq(0);
+      });
+    }
+
+    it("only checks stones inside their reveal window", async function () {
+      await expect(submit(signers.alice, 3, 4, 3)).not.to.emit(contract, "RevealRequested");
+      await expect(contract.connect(signers.bob).passTurn(gameId)).not.to.emit(contract, "RevealRequested");
+      await expect(contract.connect(signers.alice).passTurn(gameId)).to.emit(contract, "RevealRequested");
+      await fhevm.awaitDecryptionOracle();
+      await expect(contract.connect(signers.bob).passTurn(gameId)).not.to.emit(contract, "RevealRequested");
+    });
+
+    it("stops checking a stone once its latest reveal step has passed", async function () {
+      const other = ethers.id("game-2");
+      const policy = { ...POLICY, minRevealDelay: 1, maxRevealDelay: 1 };
+      await (
+        await contract.connect(signers.alice).openGame(other, signers.bob.address, true, false, BOARD_SIZE, policy)
+      ).wait();
+      gameId = await contract.gameKey(signers.alice.address, other);
+      await (await submit(signers.alice, 3, 4, 2)).wait();
+      await expect(contract.connect(signers.bob).passTurn(gameId)).to.emit(contract, "RevealRequested");
+      // The oracle has not answered yet, but the stone was checked on its last possible step.
+      await expect(contract.connect(signers.alice).passTurn(gameId)).not.to.emit(contract, "RevealRequested");
+      await fhevm.awaitDecryptionOracle();
+      expect(await revealedStones()).to.deep.eq([[0n, 3n, 4n, 2n]]);
+    });
+
+    it("rejects replayed and unknown reveal callbacks", async function () {
+      await (await submit(signers.alice, 3, 4, 10)).wait();
+      await (await contract.connect(signers.bob).passTurn(gameId)).wait();
+      const receipt = await (await contract.connect(signers.alice).passTurn(gameId)).wait();
+      const requestId = receipt!.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "RevealRequested")!.args.requestId;
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(contract.revealCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(
+        contract,
+        "ReplayDetected",
+      );
+      await expect(contract.revealCallback(requestId + 1000n, "0x", "0x")).to.be.revertedWithCustomError(
+        contract,
+        "UnknownRequest",
+      );
+    });
+  });
+
+  describe("providers", function () {});
+
+  describe("providers", function () {
+    it("makes the deployer the owner and first provider", async function () {
+      expect(await contract.owner()).to.eq(signers.deployer.address);
+      expect(await contract.isProvider(signers.deployer.address)).to.eq(true);
+    });
+
+    it("lets the owner add and remove providers", async function () {
+      await expect(contract.addProvider(signers.alice.address))
+        .to.emit(contract, "ProviderAdded")
+        .withArgs(signers.alice.address);
+      expect(await contract.isProvider(signers.alice.address)).to.eq(true);
+
+      await expect(contract.removeProvider(signers.alice.address))
+        .to.emit(contract, "ProviderRemoved")
+        .withArgs(signers.alice.address);
+      expect(await contract.isProvider(signers.alice.address)).to.eq(false);
+    });
+
+    it("rejects provider changes from anyone but the owner", async function () {
+      await expect(contract.connect(signers.alice).addProvider(signers.alice.address)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(
+        contract.connect(signers.alice).removeProvider(signers.deployer.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+
+    it("only lets providers request batch decryption", async function () {
+      await (await submit(signers.alice, 3, 4, 10)).wait();
+      await expect(contract.connect(signers.alice).requestBatchDecryption(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotProvider",
+      );
+    });
+  });
+
+  describe("pause", function () {
+    it("blocks submissions and batch changes while paused", async function () {
+      await expect(contract.pause()).to.emit(contract, "Paused").withArgs(signers.deployer.address);
+      await expect(submit(signers.alice, 3, 4, 10)).to.be.revertedWithCustomError(contract, "PausedError");
+      await expect(contract.closeBatch()).to.be.revertedWithCustomError(contract, "PausedError");
+
+      await expect(contract.unpause()).to.emit(contract, "Unpaused").withArgs(signers.deployer.address);
+      await expect(submit(signers.alice, 3, 4, 10)).to.emit(contract, "HiddenMoveSubmitted");
+    });
+
+    it("cannot pause twice or unpause when running", async function () {
+      await expect(contract.unpause()).to.be.revertedWithCustomError(contract, "PausedError");
+      await (await contract.pause()).wait();
+      await expect(contract.pause()).to.be.revertedWithCustomError(contract, "PausedError");
+    });
+
+    it("only lets the owner pause", async function () {
+      await expect(contract.connect(signers.alice).pause()).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+  });
+
+  describe("cooldowns", function () {
+    it("rejects a second submission by the same player within the cooldown", async function () {
+      await (await contract.setCooldownSeconds(60)).wait();
+      await (await submit(signers.alice, 3, 4, 10)).wait();
+      await (await submit(signers.bob, 5, 6, 10)).wait();
+
+      await expect(submit(signers.alice, 7, 8, 10)).to.be.revertedWithCustomError(contract, "CooldownActive");
+      await time.increase(60);
+      await expect(submit(signers.alice, 7, 8, 10)).to.emit(contract, "HiddenMoveSubmitted");
+    });
+
+    it("applies the cooldown to decryption requests", async function () {
+      await (await contract.setCooldownSeconds(60)).wait();
+      await (await submit(signers.alice, 3, 4, 10)).wait();
+      await (await contract.requestMoveDecryption(1, [0])).wait();
+
+      await expect(contract.requestBatchDecryption(1)).to.be.revertedWithCustomError(contract, "CooldownActive");
+    });
+
+    it("requires a positive cooldown", async function () {
+      await expect(contract.setCooldownSeconds(0)).to.be.revertedWith("Cooldown must be positive");
+      await expect(contract.setCooldownSeconds(30)).to.emit(contract, "CooldownSecondsSet").withArgs(1, 30);
+    });
+  });
+
+  describe("batches and submissions", function () {
+    it("opens and closes batches", async function () {
+      expect(await contract.currentBatchId()).to.eq(1);
+      await expect(contract.openBatch()).to.be.revertedWithCustomError(contract, "BatchAlreadyOpen");
+
+      await expect(contract.closeBatch()).to.emit(contract, "BatchClosed").withArgs(1);
+      await expect(contract.closeBatch()).to.be.revertedWithCustomError(contract, "BatchNotOpen");
+      await expect(submit(signers.alice, 3, 4, 10)).to.be.revertedWithCustomError(contract, "BatchNotOpen");
+
+      await expect(contract.openBatch()).to.emit(contract, "BatchOpened").withArgs(2);
+    });
+
+    it("stores the encrypted move so only its player can decrypt it", async function () {
+      const receipt = await (await submit(signers.alice, 3, 4, 10)).wait();
+      const event = receipt!.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "HiddenMoveSubmitted")!;
+      expect(event.args.player).to.eq(signers.alice.address);
+      expect(event.args.batchId).to.eq(1);
+      expect(event.args.index).to.eq(0);
+
+      const x = await fhevm.userDecryptEuint(FhevmType.euint32, event.args.xCt, contractAddress, signers.alice);
+      const y = await fhevm.userDecryptEuint(FhevmType.euint32, event.args.yCt, contractAddress, signers.alice);
+      expect(x).to.eq(3);
+      expect(y).to.eq(4);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, event.args.xCt, contractAddress, signers.bob)).to.be
+        .rejected;
+    });
+
+    it("counts the hidden move as the player's turn", async function () {
+      await (await submit(signers.alice, 3, 4, 10)).wait();
+      expect((await contract.games(gameId)).moveCount).to.eq(1);
+      await expect(submit(signers.alice, 5, 6, 10)).to.be.revertedWithCustomError(contract, "NotYourTurn");
+    });
+
+    it("clamps the reveal step into the policy's delay window", async function () {
+      await (await submit(signers.alice, 3, 4, 1000)).wait();
+      await (await contract.requestBatchDecryption(1)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const [move] = await contract.getDecryptedMoves(1);
+      expect(move.revealStep).to.eq(1 + POLICY.maxRevealDelay);
+    });
+
+    it("enforces the per-player quotas", async function () {
+      await (await submit(signers.alice, 0, 0, 40)).wait();
+      await (await submit(signers.bob, 1, 0, 40)).wait();
+      await (await submit(signers.alice, 0, 1, 40)).wait();
+      await (await submit(signers.bob, 1, 1, 40)).wait();
+      await expect(submit(signers.alice, 0, 2, 40)).to.be.revertedWithCustomError(contract, "TooManyUnrevealed");
+    });
+  });
+
+  describe("decryption callback", function () {
+    it("decrypts a whole batch", async function () {
+      await (await submit(signers.alice, 3, 4, 10)).wait();
+      await (await submit(signers.bob, 15, 16, 20)).wait();
+      await expect(contract.requestBatchDecryption(1)).to.emit(contract, "DecryptionRequested");
+      await fhevm.awaitDecryptionOracle();
+
+      const moves = await contract.getDecryptedMoves(1);
+      expect(moves.map((m) => [m.x, m.y, m.revealStep])).to.deep.eq([
+        [3n, 4n, 10n],
+        [15n, 16n, 20n],
+      ]);
+    });
+
+    it("decrypts only the selected moves", async function () {
+      await (await submit(signers.alice, 3, 4, 10)).wait();
+      await (await submit(signers.bob, 15, 16, 20)).wait();
+      await (await contract.connect(signers.bob).requestMoveDecryption(1, [1])).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await contract.isMoveDecrypted(1, 0)).to.eq(false);
+      expect(await contract.isMoveDecrypted(1, 1)).to.eq(true);
+      const move = await contract.decryptedMoveAt(1, 1);
+      expect([move.x, move.y, move.revealStep]).to.deep.eq([15n, 16n, 20n]);
+      expect(await contract.getDecryptedMoves(1)).to.have.length(0);
+    });
+
+    it("retires a stone once its move is decrypted", async function () {
+      await (await submit(signers.alice, 3, 4, 40)).wait();
+      await (await contract.connect(signers.alice).requestMoveDecryption(1, [0])).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await revealedStones()).to.deep.eq([[0n, 3n, 4n, 1n]]);
+      expect(await contract.unrevealedStones(gameId, signers.alice.address)).to.eq(0);
+      expect(await place(signers.bob, 3, 4)).to.eq(false);
+    });
+
+    it("retires every stone of a decrypted batch once", async function () {
+      await (await submit(signers.alice, 3, 4, 40)).wait();
+      await (await submit(signers.bob, 15, 16, 40)).wait();
+      await (await contract.connect(signers.alice).requestMoveDecryption(1, [0])).wait();
+      await fhevm.awaitDecryptionOracle();
+      await (await contract.requestBatchDecryption(1)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await revealedStones()).to.deep.eq([
+        [0n, 3n, 4n, 2n],
+        [1n, 15n, 16n, 2n],
+      ]);
+      expect(await contract.unrevealedStones(gameId, signers.alice.address)).to.eq(0);
+      expect(await contract.unrevealedStones(gameId, signers.bob.address)).to.eq(0);
+    });
+
+    it("only lets players decrypt their own moves", async function () {
+      await (await submit(signers.alice, 3, 4, 10)).wait();
+      await expect(contract.connect(signers.bob).requestMoveDecryption(1, [0])).to.be.revertedWithCustomError(
+        contract,
+        "NotMoveOwner",
+      );
+      await expect(contract.requestMoveDecryption(1, [1])).to.be.revertedWithCustomError(contract, "InvalidMoveIndex");
+    });
+
+    it("rejects a replayed callback", async function () {
+      await (await submit(signers.alice, 3, 4, 10)).wait();
+      const receipt = await (await contract.requestBatchDecryption(1)).wait();
+      const requestId = receipt!.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "DecryptionRequested")!.args.requestId;
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await contract.decryptionContexts(requestId)).processed).to.eq(true);
+      await expect(contract.myCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(
+        contract,
+        "ReplayDetected",
+      );
+    });
+
+    it("rejects a callback when the batch changed after the request", async function () {
+      await (await submit(signers.alice, 3, 4, 10)).wait();
+      const receipt = await (await contract.requestBatchDecryption(1)).wait();
+      const requestId = receipt!.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "DecryptionRequested")!.args.requestId;
+
+      await (await submit(signers.bob, 15, 16, 20)).wait();
+      await expect(contract.myCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(contract, "StateMismatch");
+    });
+  });
+});
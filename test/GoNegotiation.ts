@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { Game, KeyWrite, gameKeys, readJson } from "../frontend/web/src/games";
+import { createGameSettings } from "../frontend/web/src/go/settings";
+import {
+  OfferKind,
+  acceptedTakebacks,
+  hasAcceptedDraw,
+  readOffers,
+  signOffer,
+  signReply,
+} from "../frontend/web/src/negotiation";
+
+const WALLETS = [1, 2, 3].map((n) => new ethers.Wallet(ethers.zeroPadValue(ethers.toBeHex(n), 32)));
+const [BLACK, WHITE, STRANGER] = WALLETS.map((w) => w.address.toLowerCase());
+const DOMAIN = { name: "EncryptedGo", version: "1", chainId: 31337, verifyingContract: ethers.ZeroAddress };
+
+const GAME: Game = {
+  id: "g1",
+  creator: BLACK,
+  players: { black: BLACK, white: WHITE },
+  settings: createGameSettings(),
+  status: "running",
+  createdAt: 0,
+  createdBlock: 0,
+};
+
+function write(sender: string, key: string, value: unknown): KeyWrite {
+  return { sender, key, value: ethers.hexlify(ethers.toUtf8Bytes(JSON.stringify(value))), blockNumber: 0 };
+}
+
+function wallet(address: string) {
+  return WALLETS.find((w) => w.address.toLowerCase() === address)!;
+}
+
+function seat(sender: string) {
+  return sender === BLACK ? ("black" as const) : ("white" as const);
+}
+
+async function offer(
+  sender: string,
+  index: number,
+  kind: OfferKind,
+  moveIndex: number,
+  count?: number,
+): Promise<KeyWrite> {
+  const record = { kind, player: seat(sender), signer: sender, moveIndex, count, timestamp: 0 };
+  const signature = await signOffer(wallet(sender), DOMAIN, GAME.id, index, record);
+  return write(sender, gameKeys.offer(GAME.id, index), { ...record, signature });
+}
+
+// A reply by `sender` to the offer stored at `index`, signed for `offered`.
+async function reply(sender: string, index: number, accepted: boolean, offered: KeyWrite): Promise<KeyWrite> {
+  const record = { accepted, player: seat(sender), signer: sender, timestamp: 0 };
+  const signature = await signReply(wallet(sender), DOMAIN, GAME.id, index, readJson(offered.value), record);
+  return write(sender, gameKeys.offerReply(GAME.id, index), { ...record, signature });
+}
+
+function moveAt(sender: string, index: number): KeyWrite {
+  return write(sender, gameKeys.move(GAME.id, index), { type: "pass" });
+}
+
+describe("Offers", function () {
+  it("accepts an undo answered before the next move", async function () {
+    const undo = await offer(WHITE, 0, "undo", 4, 1);
+    const { offers, nextIndex } = readOffers(GAME, [undo, await reply(BLACK, 0, true, undo), moveAt(WHITE, 4)], DOMAIN);
+    expect(nextIndex).to.eq(1);
+    expect(offers[0].status).to.eq("accepted");
+    expect(acceptedTakebacks(offers)).to.deep.eq([{ moveIndex: 4, count: 1 }]);
+  });
+
+  it("lapses an offer once the next move is stored first", async function () {
+    const draw = await offer(WHITE, 0, "draw", 4);
+    const { offers } = readOffers(GAME, [draw, moveAt(BLACK, 4), await reply(BLACK, 0, true, draw)], DOMAIN);
+    expect(offers[0].status).to.eq("lapsed");
+    expect(hasAcceptedDraw(offers)).to.eq(false);
+  });
+
+  it("keeps a draw offer pending until it is answered", async function () {
+    const draw = await offer(BLACK, 0, "draw", 2);
+    expect(readOffers(GAME, [draw], DOMAIN).offers[0].status).to.eq("pending");
+    const declined = readOffers(GAME, [draw, await reply(WHITE, 0, false, draw)], DOMAIN);
+    expect(declined.offers[0].status).to.eq("declined");
+    const accepted = readOffers(GAME, [draw, await reply(WHITE, 0, true, draw)], DOMAIN);
+    expect(hasAcceptedDraw(accepted.offers)).to.eq(true);
+  });
+
+  it("only counts answers from the opponent", async function () {
+    const draw = await offer(BLACK, 0, "draw", 2);
+    const history = [draw, await reply(BLACK, 0, true, draw), await reply(STRANGER, 0, true, draw)];
+    expect(readOffers(GAME, history, DOMAIN).offers[0].status).to.eq("pending");
+  });
+
+  it("skips offers not stored by the seat they name", async function () {
+    const draw = await offer(BLACK, 0, "draw", 2);
+    const forged = write(STRANGER, draw.key, readJson(draw.value));
+    const mislabelled = await offer(WHITE, 1, "draw", 2);
+    const relabelled = write(WHITE, mislabelled.key, { ...readJson(mislabelled.value), player: "black" });
+    const { offers, nextIndex } = readOffers(GAME, [forged, draw, relabelled], DOMAIN);
+    expect(offers.map((o) => o.index)).to.deep.eq([0]);
+    expect(nextIndex).to.eq(2);
+  });
+
+  it("skips offers whose signature does not match what they say", async function () {
+    const undo = await offer(WHITE, 0, "undo", 4, 1);
+    const altered = write(WHITE, undo.key, { ...readJson(undo.value), count: 2 });
+    const unsigned = write(WHITE, gameKeys.offer(GAME.id, 1), { ...readJson(undo.value), signature: "0x" });
+    const otherGame = await offer(WHITE, 2, "draw", 4);
+    const resigned = await signOffer(wallet(WHITE), DOMAIN, "g2", 2, readJson(otherGame.value));
+    const replayed = write(WHITE, otherGame.key, { ...readJson(otherGame.value), signature: resigned });
+    const { offers, nextIndex } = readOffers(GAME, [altered, unsigned, replayed], DOMAIN);
+    expect(offers).to.deep.eq([]);
+    expect(nextIndex).to.eq(3);
+  });
+
+  it("ignores replies signed for another offer", async function () {
+    const first = await offer(BLACK, 0, "draw", 2);
+    const accepted = await reply(WHITE, 0, true, first);
+    const second = await offer(BLACK, 1, "draw", 3);
+    const reused = write(WHITE, gameKeys.offerReply(GAME.id, 1), readJson(accepted.value));
+    const { offers } = readOffers(GAME, [first, second, reused], DOMAIN);
+    expect(offers[1].status).to.eq("pending");
+  });
+
+  it("rejects undo requests for anything but one or two moves", async function () {
+    const history = [await offer(WHITE, 0, "undo", 4, 3), await offer(WHITE, 1, "undo", 4, 2)];
+    expect(readOffers(GAME, history, DOMAIN).offers.map((o) => o.index)).to.deep.eq([1]);
+  });
+
+  it("never lets a rematch offer lapse", async function () {
+    const { offers } = readOffers(GAME, [await offer(WHITE, 0, "rematch", 3), moveAt(BLACK, 3)], DOMAIN);
+    expect(offers[0].status).to.eq("pending");
+  });
+});
@@ -0,0 +1,43 @@
+import { expect } from "chai";
+import { Move, MoveType, Player } from "../frontend/web/src/go/types";
+import { StoneReveal, applyStoneReveals } from "../frontend/web/src/go/moves";
+import { movesAt } from "../frontend/web/src/go/replay";
+
+function move(player: Player, type: MoveType, x = -1, y = -1): Move {
+  return { type, x, y, player, signer: "", timestamp: 0, revealed: false };
+}
+
+function hidden(player: Player, stoneIndex: number): Move {
+  const encrypted = { stoneIndex, batchId: 1, index: stoneIndex, x: "0x", y: "0x", revealStep: "0x" };
+  return { ...move(player, "hidden"), encrypted };
+}
+
+// Black's hidden stone is revealed on schedule once three moves have been played.
+const MOVES = [hidden("black", 0), move("white", "place", 0, 0), move("black", "pass"), move("white", "pass")];
+const REVEALS = new Map<number, StoneReveal>([[0, { x: 2, y: 3, revealedAt: 3 }]]);
+
+describe("Replays", function () {
+  it("shows a scheduled reveal from the move the contract made it public on", function () {
+    const moves = applyStoneReveals(MOVES, REVEALS);
+    expect(movesAt(moves, 2, "as-seen")[0].revealed).to.eq(false);
+    const seen = movesAt(moves, 3, "as-seen")[0];
+    expect([seen.revealed, seen.x, seen.y]).to.deep.eq([true, 2, 3]);
+  });
+
+  it("shows revealed stones from the move they were played on when omniscient", function () {
+    const moves = applyStoneReveals(MOVES, REVEALS);
+    expect(movesAt(moves, 1, "omniscient")[0].revealed).to.eq(true);
+  });
+
+  it("takes the contract's reveal over the one a player wrote", function () {
+    const written = { ...MOVES[0], x: 5, y: 5, revealed: true, revealedAt: 1 };
+    const [revealed] = applyStoneReveals([written], REVEALS);
+    expect([revealed.x, revealed.y, revealed.revealedAt]).to.deep.eq([2, 3, 3]);
+  });
+
+  it("leaves stones the contract has not revealed hidden", function () {
+    const [stone] = applyStoneReveals([hidden("white", 1)], REVEALS);
+    expect(stone.revealed).to.eq(false);
+    expect(movesAt(MOVES, 4, "as-seen")[0].revealed).to.eq(false);
+  });
+});
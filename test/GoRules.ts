@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import { Move, MoveType, Player } from "../frontend/web/src/go/types";
+import { createPosition, isPlayFinished, playPass, playStone, replayMoves } from "../frontend/web/src/go/rules";
+
+function move(player: Player, type: MoveType, x = -1, y = -1, revealed = false): Move {
+  return { type, x, y, player, signer: "", timestamp: 0, revealed };
+}
+
+// Black captures the white stone at (1,1) with (1,2); white retaking at (1,1) would recreate the
+// position before the capture.
+const KO_SETUP: Move[] = [
+  move("black", "place", 0, 1),
+  move("white", "place", 1, 1),
+  move("black", "place", 1, 0),
+  move("white", "place", 0, 2),
+  move("black", "place", 2, 1),
+  move("white", "place", 2, 2),
+  move("black", "place", 4, 4),
+  move("white", "place", 1, 3),
+  move("black", "place", 1, 2),
+];
+
+describe("Go rules", function () {
+  it("captures a surrounded group and counts the prisoners", function () {
+    const { position, rejected } = replayMoves(KO_SETUP, createPosition(5));
+    expect(rejected).to.deep.eq([]);
+    expect(position.board[1][1]).to.eq(null);
+    expect(position.board[1][2]).to.eq("black");
+    expect(position.captures).to.deep.eq({ black: 1, white: 0 });
+  });
+
+  it("rejects occupied points, points off the board and suicide", function () {
+    const { position } = replayMoves(KO_SETUP.slice(0, 3), createPosition(5));
+    expect(playStone(position, 0, 1, "white")).to.deep.eq({ legal: false, reason: "occupied" });
+    expect(playStone(position, 5, 0, "white")).to.deep.eq({ legal: false, reason: "out-of-bounds" });
+    expect(playStone(position, 0, 0, "white")).to.deep.eq({ legal: false, reason: "suicide" });
+  });
+
+  it("forbids retaking a ko immediately", function () {
+    const { position } = replayMoves(KO_SETUP, createPosition(5));
+    expect(playStone(position, 1, 1, "white", "simple")).to.deep.eq({ legal: false, reason: "ko" });
+  });
+
+  it("allows the retake once both players have moved elsewhere", function () {
+    const { position } = replayMoves(
+      [...KO_SETUP, move("white", "place", 4, 0), move("black", "place", 3, 4)],
+      createPosition(5),
+    );
+    expect(playStone(position, 1, 1, "white", "simple").legal).to.eq(true);
+  });
+
+  it("counts unrevealed hidden moves as turns for ko", function () {
+    const moves = [...KO_SETUP, move("white", "hidden"), move("black", "hidden"), move("white", "place", 1, 1)];
+    const { position, rejected } = replayMoves(moves, createPosition(5), "simple");
+    expect(rejected).to.deep.eq([]);
+    expect(position.board[1][1]).to.eq("white");
+    expect(position.board[1][2]).to.eq(null);
+    expect(position.history).to.have.length(moves.length + 1);
+  });
+
+  it("counts blocked stones and rejected moves as turns", function () {
+    const moves = [...KO_SETUP, move("white", "blocked", 3, 3), move("black", "hidden", 0, 1, true)];
+    const { position, rejected } = replayMoves(moves, createPosition(5));
+    expect(rejected.map((r) => r.reason)).to.deep.eq(["occupied"]);
+    expect(position.board[3][3]).to.eq(null);
+    expect(position.history).to.have.length(moves.length + 1);
+  });
+
+  it("places revealed hidden stones where they were played", function () {
+    const { position } = replayMoves([move("black", "hidden", 2, 3, true), move("white", "pass")], createPosition(5));
+    expect(position.board[2][3]).to.eq("black");
+  });
+
+  it("lets passes lift simple ko but not positional superko", function () {
+    const passed = playPass(playPass(replayMoves(KO_SETUP, createPosition(5)).position, "white"), "black");
+    expect(playStone(passed, 1, 1, "white", "simple").legal).to.eq(true);
+    expect(playStone(passed, 1, 1, "white", "positional-superko")).to.deep.eq({
+      legal: false,
+      reason: "positional-superko",
+    });
+  });
+
+  it("ends play after two consecutive passes", function () {
+    expect(isPlayFinished([move("black", "pass")])).to.eq(false);
+    expect(isPlayFinished([move("black", "pass"), move("white", "blocked", 1, 1)])).to.eq(false);
+    expect(isPlayFinished([move("black", "pass"), move("white", "pass")])).to.eq(true);
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import { Position, createPosition } from "../frontend/web/src/go/rules";
+import {
+  describeResult,
+  findTerritory,
+  samePoints,
+  scorePosition,
+  toggleDeadGroup,
+} from "../frontend/web/src/go/scoring";
+
+// Columns are listed from x = 0; "b" and "w" are stones, anything else is empty.
+function positionOf(columns: string[]): Position {
+  const position = createPosition(columns.length);
+  columns.forEach((column, x) =>
+    [...column].forEach((stone, y) => {
+      position.board[x][y] = stone === "b" ? "black" : stone === "w" ? "white" : null;
+    }),
+  );
+  return position;
+}
+
+// Black walls off the left edge and white the right; a lone white stone sits in black's area.
+const FINAL = positionOf(["..w..", "bbbbb", ".....", "wwwww", "....."]);
+const DEAD_WHITE = [{ x: 0, y: 2 }];
+
+describe("Go scoring", function () {
+  it("gives empty regions to the only colour bordering them", function () {
+    const territory = findTerritory(FINAL.board);
+    expect(territory.black).to.have.length(0);
+    expect(territory.white).to.have.length(5);
+  });
+
+  it("counts territory and prisoners with territory scoring", function () {
+    const score = scorePosition(FINAL, DEAD_WHITE, "territory", 6.5);
+    expect(score.black).to.eq(6);
+    expect(score.white).to.eq(11.5);
+    expect(score.winner).to.eq("white");
+    expect(score.margin).to.eq(5.5);
+  });
+
+  it("counts territory and stones with area scoring", function () {
+    const score = scorePosition(FINAL, DEAD_WHITE, "area", 6.5);
+    expect(score.black).to.eq(10);
+    expect(score.white).to.eq(16.5);
+    expect(score.margin).to.eq(6.5);
+  });
+
+  it("calls an even score a draw", function () {
+    const score = scorePosition(FINAL, DEAD_WHITE, "territory", 1);
+    expect(score.black).to.eq(score.white);
+    expect(score.winner).to.eq(null);
+  });
+
+  it("marks and unmarks whole groups", function () {
+    const marked = toggleDeadGroup(FINAL.board, [], 3, 1);
+    expect(marked).to.have.length(5);
+    const column = [0, 1, 2, 3, 4].map((y) => ({ x: 3, y }));
+    expect(samePoints(marked, column)).to.eq(true);
+    expect(toggleDeadGroup(FINAL.board, marked, 3, 4)).to.deep.eq([]);
+    expect(toggleDeadGroup(FINAL.board, marked, 2, 2)).to.eq(marked);
+  });
+
+  it("compares dead stones regardless of order", function () {
+    const points = [
+      { x: 1, y: 2 },
+      { x: 3, y: 4 },
+    ];
+    expect(samePoints(points, [...points].reverse())).to.eq(true);
+    expect(samePoints([{ x: 1, y: 2 }], [{ x: 2, y: 1 }])).to.eq(false);
+  });
+
+  it("describes every kind of result", function () {
+    const score = scorePosition(FINAL, DEAD_WHITE, "territory", 6.5);
+    expect(
+      describeResult({
+        winner: score.winner,
+        reason: "score",
+        black: score.black,
+        white: score.white,
+        margin: score.margin,
+        scoring: "territory",
+        komi: 6.5,
+        deadStones: DEAD_WHITE,
+        timestamp: 0,
+      }),
+    ).to.eq("White wins by 5.5");
+    expect(describeResult({ winner: "black", reason: "resignation", timestamp: 0 })).to.eq("Black wins by resignation");
+    expect(describeResult({ winner: "white", reason: "timeout", timestamp: 0 })).to.eq("White wins on time");
+    expect(describeResult({ winner: null, reason: "agreement", timestamp: 0 })).to.eq("Draw by agreement");
+  });
+});
@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import { Move, MoveType, Player } from "../frontend/web/src/go/types";
+import { createGameSettings } from "../frontend/web/src/go/settings";
+import { SgfError, SgfGame, parseSgf, sgfResult, toSgf } from "../frontend/web/src/go/sgf";
+import { applyStoneReveals } from "../frontend/web/src/go/moves";
+
+function move(player: Player, type: MoveType, x = -1, y = -1, revealed = false): Move {
+  return { type, x, y, player, signer: "", timestamp: 0, revealed };
+}
+
+function game(moves: Move[], result = ""): SgfGame {
+  return { settings: createGameSettings("japanese", 9), players: { black: null, white: null }, moves, result };
+}
+
+describe("SGF", function () {
+  it("writes column then row", function () {
+    const sgf = toSgf(game([move("black", "place", 2, 5), move("white", "pass")]));
+    expect(sgf).to.contain(";B[fc]");
+    expect(sgf).to.contain(";W[]");
+    expect(sgf).to.contain("SZ[9]");
+    expect(sgf).to.contain("RU[Japanese]");
+  });
+
+  it("reads back what it writes, hidden and blocked moves included", function () {
+    const hidden = { ...move("white", "hidden", 4, 4, true), revealedAt: 3 };
+    const moves = [move("black", "place", 2, 5), hidden, move("black", "hidden"), move("white", "blocked", 0, 8)];
+    const parsed = parseSgf(toSgf(game(moves)));
+    expect(parsed.settings.boardSize).to.eq(9);
+    expect(parsed.settings.ruleSet).to.eq("japanese");
+    expect(parsed.moves.map((m) => [m.type, m.player, m.x, m.y, m.revealed])).to.deep.eq([
+      ["place", "black", 2, 5, false],
+      ["hidden", "white", 4, 4, true],
+      ["hidden", "black", -1, -1, false],
+      ["blocked", "white", 0, 8, false],
+    ]);
+    expect(parsed.moves[1].revealedAt).to.eq(3);
+  });
+
+  it("records when the contract revealed a stone on schedule", function () {
+    const encrypted = { stoneIndex: 0, batchId: 1, index: 0, x: "0x", y: "0x", revealStep: "0x" };
+    const stone = { ...move("black", "hidden"), encrypted };
+    const reveals = new Map([[0, { x: 4, y: 2, revealedAt: 5 }]]);
+    const moves = applyStoneReveals([stone, move("white", "pass")], reveals);
+    const sgf = toSgf(game(moves));
+    expect(sgf).to.contain(";B[ce]");
+    expect(sgf).to.contain("XR[5]");
+    expect(parseSgf(sgf).moves[0].revealedAt).to.eq(5);
+  });
+
+  it("records a resignation in RE and restores it as a move", function () {
+    const sgf = toSgf(game([move("black", "place", 0, 0), move("white", "resign")]));
+    expect(sgf).to.contain("RE[B+R]");
+    const parsed = parseSgf(sgf);
+    expect(parsed.result).to.eq("B+R");
+    expect(parsed.moves.map((m) => m.type)).to.deep.eq(["place", "resign"]);
+    expect(parsed.moves[1].player).to.eq("white");
+  });
+
+  it("formats results", function () {
+    expect(sgfResult(null)).to.eq("");
+    expect(sgfResult({ winner: null, reason: "agreement", timestamp: 0 })).to.eq("0");
+    expect(sgfResult({ winner: "white", reason: "timeout", timestamp: 0 })).to.eq("W+T");
+    const score = { black: 10, white: 7.5, margin: 2.5, scoring: "territory" as const, komi: 6.5, deadStones: [] };
+    expect(sgfResult({ winner: "black", reason: "score", ...score, timestamp: 0 })).to.eq("B+2.5");
+  });
+
+  it("follows the main line and reads FF[3] passes and property names", function () {
+    const parsed = parseSgf("(;GaMe[1]SZ[19]KM[0.5];B[pd];W[tt](;B[dp])(;B[dd]))");
+    expect(parsed.settings.komi).to.eq(0.5);
+    expect(parsed.moves.map((m) => [m.type, m.x, m.y])).to.deep.eq([
+      ["place", 3, 15],
+      ["pass", -1, -1],
+      ["place", 15, 3],
+    ]);
+  });
+
+  it("rejects files it cannot read", function () {
+    expect(() => parseSgf("not a game")).to.throw(SgfError, "Not an SGF file");
+    expect(() => parseSgf("(;GM[2])")).to.throw(SgfError, "Not a Go game record");
+    expect(() => parseSgf("(;SZ[12])")).to.throw(SgfError, "Unsupported board size 12");
+    expect(() => parseSgf("(;SZ[9];B[zz])")).to.throw(SgfError, 'Point "zz" is off the board');
+    expect(() => parseSgf("(;SZ[9];B[aa]")).to.throw(SgfError, "Unterminated game tree");
+  });
+});
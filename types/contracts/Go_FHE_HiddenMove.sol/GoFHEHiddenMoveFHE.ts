@@ -0,0 +1,1934 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace GoFHEHiddenMoveFHE {
+  export type DecryptedMoveStruct = {
+    x: BigNumberish;
+    y: BigNumberish;
+    revealStep: BigNumberish;
+  };
+
+  export type DecryptedMoveStructOutput = [
+    x: bigint,
+    y: bigint,
+    revealStep: bigint
+  ] & { x: bigint; y: bigint; revealStep: bigint };
+
+  export type HiddenMovePolicyStruct = {
+    interval: BigNumberish;
+    maxPerPlayer: BigNumberish;
+    maxUnrevealed: BigNumberish;
+    minRevealDelay: BigNumberish;
+    maxRevealDelay: BigNumberish;
+  };
+
+  export type HiddenMovePolicyStructOutput = [
+    interval: bigint,
+    maxPerPlayer: bigint,
+    maxUnrevealed: bigint,
+    minRevealDelay: bigint,
+    maxRevealDelay: bigint
+  ] & {
+    interval: bigint;
+    maxPerPlayer: bigint;
+    maxUnrevealed: bigint;
+    minRevealDelay: bigint;
+    maxRevealDelay: bigint;
+  };
+
+  export type MoveRecordStruct = {
+    kind: BigNumberish;
+    player: AddressLike;
+    ref: BigNumberish;
+  };
+
+  export type MoveRecordStructOutput = [
+    kind: bigint,
+    player: string,
+    ref: bigint
+  ] & { kind: bigint; player: string; ref: bigint };
+}
+
+export interface GoFHEHiddenMoveFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_BOARD_SIZE"
+      | "NOT_MATURED"
+      | "acceptTakeback"
+      | "addProvider"
+      | "batchOpen"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "currentBatchId"
+      | "decryptedMoveAt"
+      | "decryptedMoves"
+      | "decryptionContexts"
+      | "encryptedMoves"
+      | "gameKey"
+      | "games"
+      | "getDecryptedMoves"
+      | "getMoveRecords"
+      | "hiddenMovesPlayed"
+      | "hiddenStoneCount"
+      | "hiddenStones"
+      | "isMoveDecrypted"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "moveCallback"
+      | "moveRecords"
+      | "myCallback"
+      | "openBatch"
+      | "openGame"
+      | "owner"
+      | "passTurn"
+      | "pause"
+      | "paused"
+      | "placeStone"
+      | "placementChecks"
+      | "protocolId"
+      | "removeProvider"
+      | "requestBatchDecryption"
+      | "requestMoveDecryption"
+      | "requestTakeback"
+      | "revealCallback"
+      | "setCooldownSeconds"
+      | "submitHiddenMove"
+      | "takebackRequests"
+      | "transferOwnership"
+      | "unpause"
+      | "unrevealedStones"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchOpened"
+      | "CooldownSecondsSet"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "GameOpened"
+      | "GameRegistered"
+      | "HiddenMoveSubmitted"
+      | "HiddenStoneRevealed"
+      | "MoveAdvanced"
+      | "MoveDecrypted"
+      | "MoveDecryptionRequested"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "PlacementChecked"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "RevealRequested"
+      | "TakebackAccepted"
+      | "TakebackRequested"
+      | "Unpaused"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_BOARD_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "NOT_MATURED",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptTakeback",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "batchOpen", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptedMoveAt",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptedMoves",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedMoves",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "gameKey",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "games", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptedMoves",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMoveRecords",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hiddenMovesPlayed",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hiddenStoneCount",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hiddenStones",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isMoveDecrypted",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "moveCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "moveRecords",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "openBatch", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "openGame",
+    values: [
+      BytesLike,
+      AddressLike,
+      boolean,
+      boolean,
+      BigNumberish,
+      GoFHEHiddenMoveFHE.HiddenMovePolicyStruct
+    ]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "passTurn", values: [BytesLike]): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "placeStone",
+    values: [BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placementChecks",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestMoveDecryption",
+    values: [BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestTakeback",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitHiddenMove",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "takebackRequests",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "unrevealedStones",
+    values: [BytesLike, AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_BOARD_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "NOT_MATURED",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptTakeback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchOpen", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptedMoveAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptedMoves",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedMoves",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "gameKey", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "games", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptedMoves",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMoveRecords",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hiddenMovesPlayed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hiddenStoneCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hiddenStones",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isMoveDecrypted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "moveCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "moveRecords",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openGame", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "passTurn", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "placeStone", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "placementChecks",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestMoveDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestTakeback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitHiddenMove",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "takebackRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "unrevealedStones",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [oldCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    oldCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    moves: GoFHEHiddenMoveFHE.DecryptedMoveStruct[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    moves: GoFHEHiddenMoveFHE.DecryptedMoveStructOutput[]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    moves: GoFHEHiddenMoveFHE.DecryptedMoveStructOutput[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GameOpenedEvent {
+  export type InputTuple = [
+    gameId: BytesLike,
+    opener: AddressLike,
+    label: BytesLike,
+    openerIsBlack: boolean,
+    policy: GoFHEHiddenMoveFHE.HiddenMovePolicyStruct
+  ];
+  export type OutputTuple = [
+    gameId: string,
+    opener: string,
+    label: string,
+    openerIsBlack: boolean,
+    policy: GoFHEHiddenMoveFHE.HiddenMovePolicyStructOutput
+  ];
+  export interface OutputObject {
+    gameId: string;
+    opener: string;
+    label: string;
+    openerIsBlack: boolean;
+    policy: GoFHEHiddenMoveFHE.HiddenMovePolicyStructOutput;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GameRegisteredEvent {
+  export type InputTuple = [
+    gameId: BytesLike,
+    black: AddressLike,
+    white: AddressLike,
+    firstToMove: AddressLike
+  ];
+  export type OutputTuple = [
+    gameId: string,
+    black: string,
+    white: string,
+    firstToMove: string
+  ];
+  export interface OutputObject {
+    gameId: string;
+    black: string;
+    white: string;
+    firstToMove: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace HiddenMoveSubmittedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    gameId: BytesLike,
+    stoneIndex: BigNumberish,
+    batchId: BigNumberish,
+    index: BigNumberish,
+    xCt: BytesLike,
+    yCt: BytesLike,
+    revealStepCt: BytesLike
+  ];
+  export type OutputTuple = [
+    player: string,
+    gameId: string,
+    stoneIndex: bigint,
+    batchId: bigint,
+    index: bigint,
+    xCt: string,
+    yCt: string,
+    revealStepCt: string
+  ];
+  export interface OutputObject {
+    player: string;
+    gameId: string;
+    stoneIndex: bigint;
+    batchId: bigint;
+    index: bigint;
+    xCt: string;
+    yCt: string;
+    revealStepCt: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace HiddenStoneRevealedEvent {
+  export type InputTuple = [
+    gameId: BytesLike,
+    stoneIndex: BigNumberish,
+    x: BigNumberish,
+    y: BigNumberish,
+    moveCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: string,
+    stoneIndex: bigint,
+    x: bigint,
+    y: bigint,
+    moveCount: bigint
+  ];
+  export interface OutputObject {
+    gameId: string;
+    stoneIndex: bigint;
+    x: bigint;
+    y: bigint;
+    moveCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MoveAdvancedEvent {
+  export type InputTuple = [gameId: BytesLike, moveCount: BigNumberish];
+  export type OutputTuple = [gameId: string, moveCount: bigint];
+  export interface OutputObject {
+    gameId: string;
+    moveCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MoveDecryptedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    index: BigNumberish,
+    x: BigNumberish,
+    y: BigNumberish,
+    revealStep: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    index: bigint,
+    x: bigint,
+    y: bigint,
+    revealStep: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    index: bigint;
+    x: bigint;
+    y: bigint;
+    revealStep: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MoveDecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    indices: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    indices: bigint[]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    indices: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlacementCheckedEvent {
+  export type InputTuple = [
+    gameId: BytesLike,
+    player: AddressLike,
+    checkId: BigNumberish,
+    moveIndex: BigNumberish,
+    x: BigNumberish,
+    y: BigNumberish,
+    blockedCt: BytesLike
+  ];
+  export type OutputTuple = [
+    gameId: string,
+    player: string,
+    checkId: bigint,
+    moveIndex: bigint,
+    x: bigint,
+    y: bigint,
+    blockedCt: string
+  ];
+  export interface OutputObject {
+    gameId: string;
+    player: string;
+    checkId: bigint;
+    moveIndex: bigint;
+    x: bigint;
+    y: bigint;
+    blockedCt: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RevealRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    gameId: BytesLike,
+    moveCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    gameId: string,
+    moveCount: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    gameId: string;
+    moveCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TakebackAcceptedEvent {
+  export type InputTuple = [gameId: BytesLike, moveCount: BigNumberish];
+  export type OutputTuple = [gameId: string, moveCount: bigint];
+  export interface OutputObject {
+    gameId: string;
+    moveCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TakebackRequestedEvent {
+  export type InputTuple = [
+    gameId: BytesLike,
+    requester: AddressLike,
+    moveCount: BigNumberish,
+    count: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: string,
+    requester: string,
+    moveCount: bigint,
+    count: bigint
+  ];
+  export interface OutputObject {
+    gameId: string;
+    requester: string;
+    moveCount: bigint;
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface GoFHEHiddenMoveFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): GoFHEHiddenMoveFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: GoFHEHiddenMoveFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_BOARD_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  NOT_MATURED: TypedContractMethod<[], [bigint], "view">;
+
+  acceptTakeback: TypedContractMethod<
+    [gameId: BytesLike, count: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchOpen: TypedContractMethod<[], [boolean], "view">;
+
+  closeBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptedMoveAt: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [[bigint, bigint, bigint] & { x: bigint; y: bigint; revealStep: bigint }],
+    "view"
+  >;
+
+  decryptedMoves: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [[bigint, bigint, bigint] & { x: bigint; y: bigint; revealStep: bigint }],
+    "view"
+  >;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  encryptedMoves: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string, string, bigint] & {
+        x: string;
+        y: string;
+        revealStep: string;
+        player: string;
+        gameId: string;
+        stoneIndex: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  gameKey: TypedContractMethod<
+    [opener: AddressLike, label: BytesLike],
+    [string],
+    "view"
+  >;
+
+  games: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [
+        string,
+        string,
+        string,
+        bigint,
+        boolean,
+        boolean,
+        bigint,
+        GoFHEHiddenMoveFHE.HiddenMovePolicyStructOutput
+      ] & {
+        black: string;
+        white: string;
+        toMove: string;
+        moveCount: bigint;
+        registered: boolean;
+        whiteMovesFirst: boolean;
+        boardSize: bigint;
+        policy: GoFHEHiddenMoveFHE.HiddenMovePolicyStructOutput;
+      }
+    ],
+    "view"
+  >;
+
+  getDecryptedMoves: TypedContractMethod<
+    [batchId: BigNumberish],
+    [GoFHEHiddenMoveFHE.DecryptedMoveStructOutput[]],
+    "view"
+  >;
+
+  getMoveRecords: TypedContractMethod<
+    [gameId: BytesLike],
+    [GoFHEHiddenMoveFHE.MoveRecordStructOutput[]],
+    "view"
+  >;
+
+  hiddenMovesPlayed: TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  hiddenStoneCount: TypedContractMethod<[gameId: BytesLike], [bigint], "view">;
+
+  hiddenStones: TypedContractMethod<
+    [arg0: BytesLike, arg1: BigNumberish],
+    [
+      [string, string, string, string, boolean, bigint, bigint, bigint] & {
+        x: string;
+        y: string;
+        revealStep: string;
+        player: string;
+        active: boolean;
+        batchId: bigint;
+        batchIndex: bigint;
+        lastRevealMove: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  isMoveDecrypted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  moveCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  moveRecords: TypedContractMethod<
+    [arg0: BytesLike, arg1: BigNumberish],
+    [[bigint, string, bigint] & { kind: bigint; player: string; ref: bigint }],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  openGame: TypedContractMethod<
+    [
+      label: BytesLike,
+      opponent: AddressLike,
+      asBlack: boolean,
+      whiteMovesFirst: boolean,
+      boardSize: BigNumberish,
+      policy: GoFHEHiddenMoveFHE.HiddenMovePolicyStruct
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  passTurn: TypedContractMethod<[gameId: BytesLike], [void], "nonpayable">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  placeStone: TypedContractMethod<
+    [gameId: BytesLike, x: BigNumberish, y: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  placementChecks: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, bigint, bigint, string] & {
+        gameId: string;
+        player: string;
+        moveIndex: bigint;
+        x: bigint;
+        y: bigint;
+        blocked: string;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchDecryption: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestMoveDecryption: TypedContractMethod<
+    [batchId: BigNumberish, indices: BigNumberish[]],
+    [bigint],
+    "nonpayable"
+  >;
+
+  requestTakeback: TypedContractMethod<
+    [gameId: BytesLike, count: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revealCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitHiddenMove: TypedContractMethod<
+    [
+      gameId: BytesLike,
+      xInput: BytesLike,
+      yInput: BytesLike,
+      revealStepInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  takebackRequests: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [string, bigint, bigint] & {
+        requester: string;
+        moveCount: bigint;
+        count: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  unrevealedStones: TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_BOARD_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "NOT_MATURED"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "acceptTakeback"
+  ): TypedContractMethod<
+    [gameId: BytesLike, count: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchOpen"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptedMoveAt"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [[bigint, bigint, bigint] & { x: bigint; y: bigint; revealStep: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "decryptedMoves"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [[bigint, bigint, bigint] & { x: bigint; y: bigint; revealStep: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedMoves"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string, string, bigint] & {
+        x: string;
+        y: string;
+        revealStep: string;
+        player: string;
+        gameId: string;
+        stoneIndex: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "gameKey"
+  ): TypedContractMethod<
+    [opener: AddressLike, label: BytesLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "games"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [
+        string,
+        string,
+        string,
+        bigint,
+        boolean,
+        boolean,
+        bigint,
+        GoFHEHiddenMoveFHE.HiddenMovePolicyStructOutput
+      ] & {
+        black: string;
+        white: string;
+        toMove: string;
+        moveCount: bigint;
+        registered: boolean;
+        whiteMovesFirst: boolean;
+        boardSize: bigint;
+        policy: GoFHEHiddenMoveFHE.HiddenMovePolicyStructOutput;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDecryptedMoves"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [GoFHEHiddenMoveFHE.DecryptedMoveStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getMoveRecords"
+  ): TypedContractMethod<
+    [gameId: BytesLike],
+    [GoFHEHiddenMoveFHE.MoveRecordStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hiddenMovesPlayed"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hiddenStoneCount"
+  ): TypedContractMethod<[gameId: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "hiddenStones"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: BigNumberish],
+    [
+      [string, string, string, string, boolean, bigint, bigint, bigint] & {
+        x: string;
+        y: string;
+        revealStep: string;
+        player: string;
+        active: boolean;
+        batchId: bigint;
+        batchIndex: bigint;
+        lastRevealMove: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isMoveDecrypted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "moveCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "moveRecords"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: BigNumberish],
+    [[bigint, string, bigint] & { kind: bigint; player: string; ref: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "openGame"
+  ): TypedContractMethod<
+    [
+      label: BytesLike,
+      opponent: AddressLike,
+      asBlack: boolean,
+      whiteMovesFirst: boolean,
+      boardSize: BigNumberish,
+      policy: GoFHEHiddenMoveFHE.HiddenMovePolicyStruct
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "passTurn"
+  ): TypedContractMethod<[gameId: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "placeStone"
+  ): TypedContractMethod<
+    [gameId: BytesLike, x: BigNumberish, y: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "placementChecks"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, bigint, bigint, string] & {
+        gameId: string;
+        player: string;
+        moveIndex: bigint;
+        x: bigint;
+        y: bigint;
+        blocked: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBatchDecryption"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestMoveDecryption"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, indices: BigNumberish[]],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestTakeback"
+  ): TypedContractMethod<
+    [gameId: BytesLike, count: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revealCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitHiddenMove"
+  ): TypedContractMethod<
+    [
+      gameId: BytesLike,
+      xInput: BytesLike,
+      yInput: BytesLike,
+      revealStepInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "takebackRequests"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [string, bigint, bigint] & {
+        requester: string;
+        moveCount: bigint;
+        count: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unrevealedStones"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GameOpened"
+  ): TypedContractEvent<
+    GameOpenedEvent.InputTuple,
+    GameOpenedEvent.OutputTuple,
+    GameOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GameRegistered"
+  ): TypedContractEvent<
+    GameRegisteredEvent.InputTuple,
+    GameRegisteredEvent.OutputTuple,
+    GameRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "HiddenMoveSubmitted"
+  ): TypedContractEvent<
+    HiddenMoveSubmittedEvent.InputTuple,
+    HiddenMoveSubmittedEvent.OutputTuple,
+    HiddenMoveSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "HiddenStoneRevealed"
+  ): TypedContractEvent<
+    HiddenStoneRevealedEvent.InputTuple,
+    HiddenStoneRevealedEvent.OutputTuple,
+    HiddenStoneRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MoveAdvanced"
+  ): TypedContractEvent<
+    MoveAdvancedEvent.InputTuple,
+    MoveAdvancedEvent.OutputTuple,
+    MoveAdvancedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MoveDecrypted"
+  ): TypedContractEvent<
+    MoveDecryptedEvent.InputTuple,
+    MoveDecryptedEvent.OutputTuple,
+    MoveDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MoveDecryptionRequested"
+  ): TypedContractEvent<
+    MoveDecryptionRequestedEvent.InputTuple,
+    MoveDecryptionRequestedEvent.OutputTuple,
+    MoveDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlacementChecked"
+  ): TypedContractEvent<
+    PlacementCheckedEvent.InputTuple,
+    PlacementCheckedEvent.OutputTuple,
+    PlacementCheckedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RevealRequested"
+  ): TypedContractEvent<
+    RevealRequestedEvent.InputTuple,
+    RevealRequestedEvent.OutputTuple,
+    RevealRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TakebackAccepted"
+  ): TypedContractEvent<
+    TakebackAcceptedEvent.InputTuple,
+    TakebackAcceptedEvent.OutputTuple,
+    TakebackAcceptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TakebackRequested"
+  ): TypedContractEvent<
+    TakebackRequestedEvent.InputTuple,
+    TakebackRequestedEvent.OutputTuple,
+    TakebackRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,tuple[])": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "GameOpened(bytes32,address,bytes32,bool,tuple)": TypedContractEvent<
+      GameOpenedEvent.InputTuple,
+      GameOpenedEvent.OutputTuple,
+      GameOpenedEvent.OutputObject
+    >;
+    GameOpened: TypedContractEvent<
+      GameOpenedEvent.InputTuple,
+      GameOpenedEvent.OutputTuple,
+      GameOpenedEvent.OutputObject
+    >;
+
+    "GameRegistered(bytes32,address,address,address)": TypedContractEvent<
+      GameRegisteredEvent.InputTuple,
+      GameRegisteredEvent.OutputTuple,
+      GameRegisteredEvent.OutputObject
+    >;
+    GameRegistered: TypedContractEvent<
+      GameRegisteredEvent.InputTuple,
+      GameRegisteredEvent.OutputTuple,
+      GameRegisteredEvent.OutputObject
+    >;
+
+    "HiddenMoveSubmitted(address,bytes32,uint256,uint256,uint256,bytes32,bytes32,bytes32)": TypedContractEvent<
+      HiddenMoveSubmittedEvent.InputTuple,
+      HiddenMoveSubmittedEvent.OutputTuple,
+      HiddenMoveSubmittedEvent.OutputObject
+    >;
+    HiddenMoveSubmitted: TypedContractEvent<
+      HiddenMoveSubmittedEvent.InputTuple,
+      HiddenMoveSubmittedEvent.OutputTuple,
+      HiddenMoveSubmittedEvent.OutputObject
+    >;
+
+    "HiddenStoneRevealed(bytes32,uint256,uint32,uint32,uint32)": TypedContractEvent<
+      HiddenStoneRevealedEvent.InputTuple,
+      HiddenStoneRevealedEvent.OutputTuple,
+      HiddenStoneRevealedEvent.OutputObject
+    >;
+    HiddenStoneRevealed: TypedContractEvent<
+      HiddenStoneRevealedEvent.InputTuple,
+      HiddenStoneRevealedEvent.OutputTuple,
+      HiddenStoneRevealedEvent.OutputObject
+    >;
+
+    "MoveAdvanced(bytes32,uint32)": TypedContractEvent<
+      MoveAdvancedEvent.InputTuple,
+      MoveAdvancedEvent.OutputTuple,
+      MoveAdvancedEvent.OutputObject
+    >;
+    MoveAdvanced: TypedContractEvent<
+      MoveAdvancedEvent.InputTuple,
+      MoveAdvancedEvent.OutputTuple,
+      MoveAdvancedEvent.OutputObject
+    >;
+
+    "MoveDecrypted(uint256,uint256,uint256,uint32,uint32,uint32)": TypedContractEvent<
+      MoveDecryptedEvent.InputTuple,
+      MoveDecryptedEvent.OutputTuple,
+      MoveDecryptedEvent.OutputObject
+    >;
+    MoveDecrypted: TypedContractEvent<
+      MoveDecryptedEvent.InputTuple,
+      MoveDecryptedEvent.OutputTuple,
+      MoveDecryptedEvent.OutputObject
+    >;
+
+    "MoveDecryptionRequested(uint256,uint256,uint256[])": TypedContractEvent<
+      MoveDecryptionRequestedEvent.InputTuple,
+      MoveDecryptionRequestedEvent.OutputTuple,
+      MoveDecryptionRequestedEvent.OutputObject
+    >;
+    MoveDecryptionRequested: TypedContractEvent<
+      MoveDecryptionRequestedEvent.InputTuple,
+      MoveDecryptionRequestedEvent.OutputTuple,
+      MoveDecryptionRequestedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "PlacementChecked(bytes32,address,uint256,uint32,uint32,uint32,bytes32)": TypedContractEvent<
+      PlacementCheckedEvent.InputTuple,
+      PlacementCheckedEvent.OutputTuple,
+      PlacementCheckedEvent.OutputObject
+    >;
+    PlacementChecked: TypedContractEvent<
+      PlacementCheckedEvent.InputTuple,
+      PlacementCheckedEvent.OutputTuple,
+      PlacementCheckedEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "RevealRequested(uint256,bytes32,uint32)": TypedContractEvent<
+      RevealRequestedEvent.InputTuple,
+      RevealRequestedEvent.OutputTuple,
+      RevealRequestedEvent.OutputObject
+    >;
+    RevealRequested: TypedContractEvent<
+      RevealRequestedEvent.InputTuple,
+      RevealRequestedEvent.OutputTuple,
+      RevealRequestedEvent.OutputObject
+    >;
+
+    "TakebackAccepted(bytes32,uint32)": TypedContractEvent<
+      TakebackAcceptedEvent.InputTuple,
+      TakebackAcceptedEvent.OutputTuple,
+      TakebackAcceptedEvent.OutputObject
+    >;
+    TakebackAccepted: TypedContractEvent<
+      TakebackAcceptedEvent.InputTuple,
+      TakebackAcceptedEvent.OutputTuple,
+      TakebackAcceptedEvent.OutputObject
+    >;
+
+    "TakebackRequested(bytes32,address,uint32,uint32)": TypedContractEvent<
+      TakebackRequestedEvent.InputTuple,
+      TakebackRequestedEvent.OutputTuple,
+      TakebackRequestedEvent.OutputObject
+    >;
+    TakebackRequested: TypedContractEvent<
+      TakebackRequestedEvent.InputTuple,
+      TakebackRequestedEvent.OutputTuple,
+      TakebackRequestedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+  };
+}
@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as goFheHiddenMoveSol from "./Go_FHE_HiddenMove.sol";
+export type { goFheHiddenMoveSol };
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,1919 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  GoFHEHiddenMoveFHE,
+  GoFHEHiddenMoveFHEInterface,
+} from "../../../contracts/Go_FHE_HiddenMove.sol/GoFHEHiddenMoveFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchAlreadyOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "GameAlreadyRegistered",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "GameNotRegistered",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HiddenMoveNotDue",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HiddenMoveQuotaReached",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBoardSize",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMoveIndex",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidOpponent",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidPolicy",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidProof",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidStone",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidTakeback",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoTakeback",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotAPlayer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotMoveOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotYourTurn",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TooManyUnrevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownRequest",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "x",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "y",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "revealStep",
+            type: "uint32",
+          },
+        ],
+        indexed: false,
+        internalType: "struct GoFHEHiddenMoveFHE.DecryptedMove[]",
+        name: "moves",
+        type: "tuple[]",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "opener",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "label",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "openerIsBlack",
+        type: "bool",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "interval",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxPerPlayer",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxUnrevealed",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "minRevealDelay",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxRevealDelay",
+            type: "uint32",
+          },
+        ],
+        indexed: false,
+        internalType: "struct GoFHEHiddenMoveFHE.HiddenMovePolicy",
+        name: "policy",
+        type: "tuple",
+      },
+    ],
+    name: "GameOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "black",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "white",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "firstToMove",
+        type: "address",
+      },
+    ],
+    name: "GameRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "stoneIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "xCt",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "yCt",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "revealStepCt",
+        type: "bytes32",
+      },
+    ],
+    name: "HiddenMoveSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "stoneIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "x",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "y",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "moveCount",
+        type: "uint32",
+      },
+    ],
+    name: "HiddenStoneRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "moveCount",
+        type: "uint32",
+      },
+    ],
+    name: "MoveAdvanced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "x",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "y",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revealStep",
+        type: "uint32",
+      },
+    ],
+    name: "MoveDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "indices",
+        type: "uint256[]",
+      },
+    ],
+    name: "MoveDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "checkId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "moveIndex",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "x",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "y",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "blockedCt",
+        type: "bytes32",
+      },
+    ],
+    name: "PlacementChecked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "moveCount",
+        type: "uint32",
+      },
+    ],
+    name: "RevealRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "moveCount",
+        type: "uint32",
+      },
+    ],
+    name: "TakebackAccepted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "moveCount",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    name: "TakebackRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_BOARD_SIZE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "NOT_MATURED",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    name: "acceptTakeback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptedMoveAt",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "x",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "y",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "revealStep",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptedMoves",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "x",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "y",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "revealStep",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedMoves",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "x",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "y",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "revealStep",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "stoneIndex",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "opener",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "label",
+        type: "bytes32",
+      },
+    ],
+    name: "gameKey",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "games",
+    outputs: [
+      {
+        internalType: "address",
+        name: "black",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "white",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "toMove",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "moveCount",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "registered",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "whiteMovesFirst",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "boardSize",
+        type: "uint32",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "interval",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxPerPlayer",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxUnrevealed",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "minRevealDelay",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxRevealDelay",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct GoFHEHiddenMoveFHE.HiddenMovePolicy",
+        name: "policy",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptedMoves",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "x",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "y",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "revealStep",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct GoFHEHiddenMoveFHE.DecryptedMove[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+    ],
+    name: "getMoveRecords",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "enum GoFHEHiddenMoveFHE.MoveKind",
+            name: "kind",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "player",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "ref",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct GoFHEHiddenMoveFHE.MoveRecord[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hiddenMovesPlayed",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+    ],
+    name: "hiddenStoneCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "hiddenStones",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "x",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "y",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "revealStep",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "batchIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "lastRevealMove",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isMoveDecrypted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "moveCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "moveRecords",
+    outputs: [
+      {
+        internalType: "enum GoFHEHiddenMoveFHE.MoveKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "ref",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "label",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "opponent",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "asBlack",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "whiteMovesFirst",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "boardSize",
+        type: "uint32",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "interval",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxPerPlayer",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxUnrevealed",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "minRevealDelay",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxRevealDelay",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct GoFHEHiddenMoveFHE.HiddenMovePolicy",
+        name: "policy",
+        type: "tuple",
+      },
+    ],
+    name: "openGame",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+    ],
+    name: "passTurn",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "x",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "y",
+        type: "uint32",
+      },
+    ],
+    name: "placeStone",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "checkId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "placementChecks",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "moveIndex",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "x",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "y",
+        type: "uint32",
+      },
+      {
+        internalType: "ebool",
+        name: "blocked",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "indices",
+        type: "uint256[]",
+      },
+    ],
+    name: "requestMoveDecryption",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    name: "requestTakeback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "revealCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "xInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "yInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "revealStepInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitHiddenMove",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "takebackRequests",
+    outputs: [
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "moveCount",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "unrevealedStones",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234620001ae575f606062000017620001b2565b828152826020820152826040820152015262000032620001b2565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55335f52600160205260405f20600160ff1982541617905560018060a01b035f5416604051907fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2600a6003556152579081620001e78239f35b5f80fd5b60405190608082016001600160401b03811183821017620001d257604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c806303c0d670146102f457806304c7a7cd146102ef5780630a763da1146102ea578063124bd04b146102e557806318f2e38a146102e05780631f1b88a0146102db5780631f96c1a8146102d65780633c33cd07146102d15780633f4ba83a146102cc57806344ab9703146102c757806346e2577a146102c25780634a822bfe146102bd5780635a94a079146102b85780635c975abb146102b35780635ef3bfa5146102ae57806365730620146102a95780636b074a07146102a45780636f33198f1461029f578063712fd7771461029a5780637b5b1157146102955780638456cb59146102905780638a355a571461028b5780638da5cb5b1461028657806393bb161214610281578063974e2b171461027c578063998c2b5c14610277578063a0c9f01514610272578063a43654761461026d578063acd7510314610268578063ae59512c14610263578063b4c5dd2b1461025e578063b65e894114610259578063b8221bc414610254578063c1d1e3711461024f578063d07925121461024a578063d9c5e44b14610245578063da1f12ab14610240578063dfba88a81461023b578063e644a53014610236578063eb694c5a14610231578063ed203aa11461022c578063f0fc458014610227578063f2fde38b14610222578063f579f8821461021d578063f590b6f2146102185763f5dbdfb914610213575f80fd5b61203b565b611ed3565b611dd7565b611d14565b611c38565b611bf3565b611b54565b611ab5565b611a38565b6119b6565b61190d565b6118c5565b61182e565b6117ac565b611766565b611707565b61168a565b61161f565b6115e7565b61155c565b6114e9565b611194565b6110b2565b611039565b610fc7565b610f64565b610eba565b610e6b565b610e0d565b610dd0565b610d74565b610d39565b610d17565b610cdf565b610cb5565b610c3f565b610b80565b610b20565b610a2d565b6109a0565b610954565b610936565b6107c7565b6107aa565b6106f7565b610484565b634e487b7160e01b5f52604160045260245ffd5b606081019081106001600160401b0382111761032857604052565b6102f9565b608081019081106001600160401b0382111761032857604052565b6001600160401b03811161032857604052565b90601f801991011681019081106001600160401b0382111761032857604052565b604051906103898261030d565b565b604051906103898261032d565b6040519060c082018281106001600160401b0382111761032857604052565b6040519061010082018281106001600160401b0382111761032857604052565b9291926001600160401b0382116103285760405191610400601f8201601f19166020018461035b565b82948184528183011161041c578281602093845f960137010152565b5f80fd5b9080601f8301121561041c5781602061043b933591016103d7565b90565b606060031982011261041c57600435916001600160401b0360243581811161041c578361046d91600401610420565b9260443591821161041c5761043b91600401610420565b3461041c5761049f6104953661043e565b81839492936135e4565b9160608301805151156106db575f5b8151518110156106d957806106d36104e26104d96104cd60019561206a565b60051b88016020015190565b63ffffffff1690565b6105056104d96104f96104f48661206a565b612096565b60051b89016020015190565b9088877f7ee60cfed689ca5d5f43cff70ff3bdc80c1da70115c433c608598ff2c9d573fc61054c6104d961054061053b8a61206a565b6120a4565b60051b8d016020015190565b61056361055761037c565b63ffffffff9096168652565b6105776020860196879063ffffffff169052565b6105f56105e88b6105c08b6105e160409961059b8b8d0198899063ffffffff169052565b6105d28c6105cd6105b584515f52600b60205260405f2090565b6105c0878a516120b2565b515f5260205260405f2090565b6120d9565b515f52600c60205260405f2090565b92516120b2565b805460ff19166001179055565b8c519361065f6106068a8d516120b2565b5191610616885163ffffffff1690565b936106336106288b5163ffffffff1690565b915163ffffffff1690565b915193845263ffffffff9485166020850152841660408401529290921660608201529081906080820190565b0390a361068a6106788a515f52600960205260405f2090565b6106838689516120b2565b5190611543565b50916106a761062860056004860154950154935163ffffffff1690565b916106cd60026106bf865f52601160205260405f2090565b015460a01c63ffffffff1690565b936136d0565b016104ae565b005b604051636d08029760e01b8152600490fd5b5f91031261041c57565b3461041c575f36600319011261041c575f546001600160a01b031633036107985760ff600254166107865760085460ff81166107745760207fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee291600161075e600754612129565b918260075560ff191617600855604051908152a1005b604051630292dd1d60e11b8152600490fd5b604051633b3b4caf60e21b8152600490fd5b6040516330cd747160e01b8152600490fd5b3461041c575f36600319011261041c576020600754604051908152f35b3461041c576107e26107d83661043e565b81839492946135e4565b916060830151516106db578051606090046107fc8161214e565b915f5b82811061085b57847f856a1d45d7125b90168b9e8103f18cba436ae5ba4f403eed3d01d8acf61dc35985886108468261084183515f52600a60205260405f2090565b6121b1565b5161085660405192839283612232565b0390a2005b8061093061087c6104d961087060019561206a565b60051b86016020015190565b61089a6104d961088e6104f48661206a565b60051b87016020015190565b6108ac6104d96104cd61053b8761206a565b6108db6108b761037c565b63ffffffff851681529163ffffffff841660208401525b63ffffffff166040830152565b6108e5858a6120b2565b526108f084896120b2565b5061090d846109088c515f52600960205260405f2090565b611543565b5091600560048401549301546106cd60026106bf865f52601160205260405f2090565b016107ff565b3461041c575f36600319011261041c57602060405163ffffffff8152f35b3461041c57602036600319011261041c576004355f526015602052606060405f205463ffffffff6040519160018060a01b0381168352818160a01c16602084015260c01c166040820152f35b3461041c575f36600319011261041c575f546001600160a01b031633036107985760ff600254166107865760085460ff811615610a0d5760ff19166008557f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085876020600754604051908152a1005b60405163f84b8daf60e01b8152600490fd5b63ffffffff81160361041c57565b3461041c57606036600319011261041c57602435600435610a4d82610a1f565b604435610a5981610a1f565b60ff6002541661078657610a75825f52601160205260405f2090565b6002810154610a8c9060c01c60ff161590565b1590565b610b0e578054610aac906001600160a01b03165b6001600160a01b031690565b3314159081610aee575b50610adc57610ad892610ac8926122d9565b6040519081529081906020820190565b0390f35b60405163abca351760e01b8152600490fd5b60010154610b0591506001600160a01b0316610aa0565b3314155f610ab6565b60405163e1ed333d60e01b8152600490fd5b3461041c575f36600319011261041c575f546001600160a01b031633036107985760025460ff8116156107865760ff19166002557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa6020604051338152a1005b3461041c57602036600319011261041c5760043560ff6002541661078657610bb0815f52601160205260405f2090565b6002810154610bc39060c01c60ff161590565b610b0e578054610bdb906001600160a01b0316610aa0565b3314159081610bf3575b50610adc576106d990612511565b60010154610c0a91506001600160a01b0316610aa0565b3314155f610be5565b600435906001600160a01b038216820361041c57565b602435906001600160a01b038216820361041c57565b3461041c57602036600319011261041c57610c58610c13565b5f546001600160a01b039190821633036107985716805f52600160205260405f20805460ff811615610c8657005b60ff191660011790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b3461041c57602036600319011261041c576004355f52600d602052602060405f2054604051908152f35b3461041c57602036600319011261041c576001600160a01b03610d00610c13565b165f526005602052602060405f2054604051908152f35b3461041c575f36600319011261041c57602060ff600254166040519015158152f35b3461041c57604036600319011261041c576004355f52600c60205260405f206024355f52602052602060ff60405f2054166040519015158152f35b3461041c57604036600319011261041c576001600160401b0360243581811161041c573660238201121561041c57806004013591821161041c573660248360051b8301011161041c57610ad8916024610ac8920160043561253a565b3461041c57602036600319011261041c576001600160a01b03610df1610c13565b165f526001602052602060ff60405f2054166040519015158152f35b3461041c5760a036600319011261041c576084356001600160401b0380821161041c573660238301121561041c57816004013590811161041c57366024828401011161041c5760246106d992016064356044356024356004356128ad565b3461041c57604036600319011261041c57602063ffffffff610eb0610e8e610c29565b6004355f526013845260405f209060018060a01b03165f5260205260405f2090565b5416604051908152f35b3461041c57602036600319011261041c575f54600435906001600160a01b03163303610798578015610f1f5760407f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a7391600354908060035582519182526020820152a1005b60405162461bcd60e51b815260206004820152601960248201527f436f6f6c646f776e206d75737420626520706f736974697665000000000000006044820152606490fd5b3461041c575f36600319011261041c575f546001600160a01b031633036107985760025460ff81166107865760019060ff1916176002557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586020604051338152a1005b3461041c57602036600319011261041c57610fe0610c13565b5f546001600160a01b039190821633036107985716805f52600160205260405f20805460ff811661100d57005b60ff191690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b3461041c575f36600319011261041c575f546040516001600160a01b039091168152602090f35b634e487b7160e01b5f52603260045260245ffd5b6010548110156110ad5760039060105f52027f1b6847dc741a1b0cd08d278845f9d819d87b734759afb55fe2de5cb82a9ae67201905f90565b611060565b3461041c57602036600319011261041c5760043560105481101561041c5760105f526003027f1b6847dc741a1b0cd08d278845f9d819d87b734759afb55fe2de5cb82a9ae6728101547f1b6847dc741a1b0cd08d278845f9d819d87b734759afb55fe2de5cb82a9ae6738201547f1b6847dc741a1b0cd08d278845f9d819d87b734759afb55fe2de5cb82a9ae67490920154604080519283526001600160a01b038416602084015263ffffffff60a085811c82169285019290925260c085811c909116606085015260e09490941c6080840152820152f35b8015150361041c57565b3461041c5761014036600319011261041c5760048035906111b3610c29565b90604435926111c18461118a565b6064356111cd8161118a565b608435906111da82610a1f565b60a03660a319011261041c5760ff600254166114d8576001600160a01b03851680159081156114ce575b506114bd5763ffffffff80831680159081156114b2575b506114a15761122b6104d9612eec565b1590811561148d575b811561146e575b5061145d5761124a8333613076565b9361126d6002611262875f52601160205260405f2090565b015460c01c60ff1690565b61144e575083809596611288825f52601160205260405f2090565b60028101805460ff60c01b1916600160c01b17815590989094855460ff60c81b191685151560c81b60ff60c81b16178655855463ffffffff60d01b191660d09190911b63ffffffff60d01b161785556112e360038a01612f12565b815f14610ad8997fcf1181698da0217e5d7dc0a327336a6a586761800c74df8b1781894388d5d01297611416957fdf8da1720cd52e50f9f0c9b313818b0ff9e728814f0b311f2dfb510c1918ea426113cd6113eb976113dd976113dd9761144557611365335b88546001600160a01b0319166001600160a01b03909116178855565b811561143d579a5b6001870180546001600160a01b0319166001600160a01b03909d169c909c178c5515611429578a546113bf906001600160a01b03165b8d546001600160a01b0319166001600160a01b03909116178d55565b604051918291339683612ffd565b0390a3546001600160a01b031690565b93546001600160a01b031690565b604080516001600160a01b039485168152948416602086015292169183019190915281906060820190565b0390a26040519081529081906020820190565b85546113bf906001600160a01b03166113a3565b50339a61136d565b61136581611349565b60405163aa2d1d5f60e01b8152fd5b60405163d06b96b160e01b81528490fd5b9050611478612ef8565b906114846104d9612f05565b9116115f61123b565b905061149a6104d9612ef8565b1590611234565b604051630afc040b60e31b81528590fd5b60199150115f61121b565b60405163ab02711d60e01b81528490fd5b905033145f611204565b604051633b3b4caf60e21b81528490fd5b3461041c57604036600319011261041c576004355f908152600b60209081526040808320602435845282529182902054825163ffffffff808316825282841c81169382019390935290831c90911691810191909152606090f35b80548210156110ad575f52600660205f20910201905f90565b3461041c57604036600319011261041c576024356004355f52600960205260405f2090815481101561041c5761159191611543565b5080546001820154600283015460038401546004850154600590950154604080519586526020860194909452928401919091526001600160a01b03166060830152608082019290925260a081019190915260c090f35b3461041c57602036600319011261041c576001600160a01b03611608610c13565b165f526004602052602060405f2054604051908152f35b3461041c575f36600319011261041c57602060ff600854166040519015158152f35b80548210156110ad575f5260205f209060011b01905f90565b634e487b7160e01b5f52602160045260245ffd5b6003111561167857565b61165a565b9060038210156116785752565b3461041c57604036600319011261041c576024356004355f52601260205260405f20805482101561041c576060916116c191611641565b5060018154910154604051916116da8360ff831661167d565b60081c6001600160a01b031660208301526040820152f35b80548210156110ad575f5260205f2001905f90565b3461041c57604036600319011261041c576024356004355f52600a60205260405f2090815481101561041c5761173c916116f2565b50546040805163ffffffff8084168252602084811c82169083015292821c90921690820152606090f35b3461041c57602036600319011261041c576004355f526006602052606060405f2080549060ff600260018301549201541690604051928352602083015215156040820152f35b3461041c575f36600319011261041c576020600354604051908152f35b9081518082526020808093019301915f5b8281106117e8575050505090565b8351805163ffffffff9081168752818401518116878501526040918201511690860152606090940193928101926001016117da565b90602061043b9281815201906117c9565b3461041c5760208060031936011261041c576004355f52600a8152604090815f2080549061185b82612137565b926118688551948561035b565b8284525f9182528082208185015b84841061188a57865180610ad8888261181d565b6001838192895161189a8161030d565b855463ffffffff9081811683528181861c16858401528c1c168b820152815201920193019290611876565b3461041c57604036600319011261041c5760206118ec6118e3610c13565b60243590613076565b604051908152f35b80548210156110ad575f52600760205f20910201905f90565b3461041c57604036600319011261041c576024356004355f52600d60205260405f2090815481101561041c57611942916118f4565b50805460018201546002830154600384015460048501546005860154600690960154604080519687526020870195909552938501929092526001600160a01b038116606085015260ff60a091821c161515608085015283015260c082019290925263ffffffff90911660e082015261010090f35b3461041c575f36600319011261041c5760206040516127118152f35b60208082019080835283518092528060408094019401925f905b8382106119fb57505050505090565b9091929394836060600192848951611a1483825161167d565b858060a01b03858201511685840152015185820152019601920190939291936119ec565b3461041c5760208060031936011261041c576004355f52601260205260405f208054611a6381612137565b91611a71604051938461035b565b81835260208301905f5260205f20935f915b838310611a985760405180610ad887826119d2565b600282600192611aa7896130a4565b815201960192019194611a83565b3461041c57604036600319011261041c57600435602435611ad581610a1f565b60ff6002541661078657611af1825f52601160205260405f2090565b6002810154611b049060c01c60ff161590565b610b0e578054611b1c906001600160a01b0316610aa0565b3314159081611b34575b50610adc576106d991613155565b60010154611b4b91506001600160a01b0316610aa0565b3314155f611b26565b3461041c57604036600319011261041c57600435602435611b7481610a1f565b60ff6002541661078657611b90825f52601160205260405f2090565b6002810154611ba39060c01c60ff161590565b610b0e578054611bbb906001600160a01b0316610aa0565b3314159081611bd3575b50610adc576106d99161332b565b60010154611bea91506001600160a01b0316610aa0565b3314155f611bc5565b3461041c57604036600319011261041c57602063ffffffff610eb0611c16610c29565b6004355f526014845260405f209060018060a01b03165f5260205260405f2090565b3461041c57611c463661043e565b611c5a8392935f52601660205260405f2090565b9060038201611c6a815460ff1690565b611d025760028301938454156106db57611c8892866105e892614589565b5f5b82548110156106d95780611ca56104d961088e600194612080565b611cb76104d96104cd6104f485612080565b9063ffffffff80821603611cce575b505001611c8a565b611cfb91855491611cec611ce2868a6116f2565b90549060031b1c90565b8787015463ffffffff166106cd565b5f80611cc6565b60405163faf8ed4f60e01b8152600490fd5b3461041c57602036600319011261041c57611d2d610c13565b5f54906001600160a01b038083169133839003610798571680926bffffffffffffffffffffffff60a01b16175f557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b9060405160a081018181106001600160401b0382111761032857604052608081935463ffffffff908181168452818160201c166020850152818160401c166040850152818160601c166060850152821c16910152565b3461041c57602036600319011261041c576004355f52601160205260405f2060018060a01b0390610ad8828254169183600182015416600282015494611e24600363ffffffff9401611d81565b92604051968796828260d01c169460ff8360c81c169460ff8460c01c16948460a01c169316918996909897929560809492610160976101808a019b60018060a01b0392838092168c521660208b015216604089015263ffffffff958680941660608a0152151585890152151560a08801521660c08601528281511660e0860152826020820151166101008601528260408201511661012086015282606082015116610140860152015116910152565b3461041c57602036600319011261041c5760048035335f52600160205260409160ff835f2054161561202d5760ff6002541661201f57335f526005602052825f2054600354810180911161201a57421061200c5781158015612001575b611ff357611f46825f52600960205260405f2090565b5415611ff357506108567f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c91611f83611f7d613511565b82613fa5565b93611fd4611f99611f938761408b565b96614b76565b95611fa2613511565b611faa61038b565b9185835260208301525f848301526060820152611fcf875f52600660205260405f2090565b6127ff565b335f908152600560205260409020429055519081529081906020820190565b8251633b98df6560e01b8152fd5b506007548211611f30565b825163aa9a98df60e01b8152fd5b612056565b8251633b3b4caf60e21b8152fd5b8251631a40715960e11b8152fd5b3461041c575f36600319011261041c57602060405160198152f35b634e487b7160e01b5f52601160045260245ffd5b9060038202918083046003149015171561201a57565b908160011b918083046002149015171561201a57565b906001820180921161201a57565b906002820180921161201a57565b80518210156110ad5760209160051b010190565b634e487b7160e01b5f525f60045260245ffd5b81518154602080850151604095860151911b67ffffffff000000001663ffffffff9093166bffffffffffffffffffffffff199092169190911791909117921b63ffffffff60401b16919091179055565b5f19811461201a5760010190565b6001600160401b0381116103285760051b60200190565b9061215882612137565b604090612168604051918261035b565b8381528093612179601f1991612137565b01915f5b83811061218a5750505050565b60209082516121988161030d565b5f8152825f818301525f8583015282860101520161217d565b815191600160401b831161032857815483835580841061220c575b506121df6020809201925f5260205f2090565b5f925b8484106121f0575050505050565b60018382612200839451866120d9565b019201930192906121e2565b825f528360205f2091820191015b81811061222757506121cc565b5f815560010161221a565b60409061043b9392815281602082015201906117c9565b601054600160401b811015610328578060016122689201601055611074565b9190916122d45780518255602081015160408201516060830151608084015160e01b6001600160e01b03191660a092831b63ffffffff60a01b166001600160a01b039094169390931760c09190911b63ffffffff60c01b16179190911760018401550151600290910155565b6120c6565b91909260026122f0845f52601160205260405f2090565b0180549091906001600160a01b03811633036124ff5763ffffffff809160d01c168082881610918215926124f2575b50506124e057612337845f52600d60205260405f2090565b90612340614687565b925f935b83548510156123f65761235785856118f4565b5060039081015461236c9060a01c60ff161590565b9081156123cc575b506123c3576123ba6001916123b46123978b6123908a8a6118f4565b50546137b8565b6123ae8a866123a68c8c6118f4565b5001546137b8565b90613864565b906138f9565b945b0193612344565b936001906123bc565b90506123ef610aa06123de88886118f4565b50923393015460018060a01b031690565b145f612374565b919592509250817fd23662c96b360e7115a468b56dd5e21b277bdf68c60457cd7f518948ec70ddfb610389956124a19861242f85613979565b506124398561484c565b6124d86010549a886124946124578e9b5463ffffffff9060a01c1690565b612471612462610398565b8a8152336020820152916108ce565b63ffffffff8616606082015263ffffffff871660808201528960a0820152612249565b5460a01c63ffffffff1690565b604080518a815263ffffffff92831660208201529382169084015290921660608201526080810194909452339390819060a0820190565b0390a3613ac4565b604051637f2a93cd60e11b8152600490fd5b8516101590505f8061231f565b604051631cc191eb60e31b8152600490fd5b5f818152601160205260409020600201546001600160a01b031633036124ff5761038990613d57565b90929160ff6002541661078657335f526005602052604090815f2054600390600354810180911161201a57421061270357831580156126f8575b6126e75781156126d657612590845f52600960205260405f2090565b335f9081526001602052604090205460ff168154929015915f5b8581106126635750505050507fe01703ca64c54c491f76ed4049d92b23957ef515eff53d8f0216da2b8677b55190612642949561265d6125f46125ee368585612724565b87613fa5565b946126076126018761408b565b96614ca3565b97889661261261038b565b9089825260208201525f8382015261262b368787612724565b6060820152611fcf885f52600660205260405f2090565b335f9081526005602052604090204290555192839283612884565b0390a390565b8461266f82888d612714565b3510156126c557838061269a575b612689576001016125aa565b86516381320a1760e01b8152600490fd5b506126b06126a982888d612714565b3583611543565b508301546001600160a01b031633141561267d565b86516332883eab60e11b8152600490fd5b82516332883eab60e11b8152600490fd5b8251633b98df6560e01b8152600490fd5b506007548411612574565b825163aa9a98df60e01b8152600490fd5b91908110156110ad5760051b0190565b929161272f82612137565b9161273d604051938461035b565b829481845260208094019160051b810192831161041c57905b8282106127635750505050565b81358152908301908301612756565b9161278b9183549060031b91821b915f19901b19161790565b9055565b8054905f81558161279e575050565b5f5260205f20908101905b8181106127b4575050565b5f81556001016127a9565b90600160401b8111610328578154918181558282106127dd57505050565b5f5260205f2091820191015b8181106127f4575050565b5f81556001016127e9565b81518155600191606060036020936020840151600182015561283660408501511515600283019060ff801983541691151516179055565b01910151918251926001600160401b0384116103285760209061285985856127bf565b01915f5260205f20905f5b84811061287357505050505050565b835183820155928101928501612864565b602080825281018390526001600160fb1b03831161041c5760409260051b809284830137010190565b949392919060ff60025416610786576128ce865f52601160205260405f2090565b60028101546128e19060c01c60ff161590565b610b0e5780546128f9906001600160a01b0316610aa0565b3314159081612911575b50610adc5761038995612931565b6001015461292891506001600160a01b0316610aa0565b3314155f612903565b94909391335f526004602052604093845f2054600354810180911161201a574210612cf857612965610a8860085460ff1690565b612ce757908694939291612978866140e5565b9361298b875f52601160205260405f2090565b6003019761299a3686846103d7565b6129a3916141e2565b926129af3686846103d7565b6129b8916141e2565b9336906129c4926103d7565b6129cd916141e2565b865460601c63ffffffff166129e29085612d1e565b6129eb916142d3565b865460801c63ffffffff16612a009085612d1e565b612a0991614351565b612a1b865f52601160205260405f2090565b6002015460d01c63ffffffff16875490939060601c63ffffffff16612a409086612d1e565b92612a4a946143cf565b9092612a55836144a7565b612a5e846144a7565b612a67826144a7565b612a70836144c0565b612a79846144c0565b612a82826144c0565b612a94865f52600d60205260405f2090565b54968791600754612aad905f52600960205260405f2090565b612ab5610398565b868152602081018890528881018690523360608201528960808201528460a0820152612ae091612d36565b612af2885f52600d60205260405f2090565b600754612b07815f52600960205260405f2090565b54612b1190612db0565b845460801c63ffffffff16612b269085612d1e565b90612b2f6103b7565b898152602081018b90528b8101899052336060820152926001608085015260a084015260c083015263ffffffff1660e0820152612b6b91612dcb565b612b7d885f52600e60205260405f2090565b915460601c63ffffffff16612b9191612d1e565b612ba8919063ffffffff165f5260205260405f2090565b90612bb291612e9f565b33612bc5865f52601360205260405f2090565b6001600160a01b039091165f90815260209190915260409020805463ffffffff16612bef90612ed7565b815463ffffffff191663ffffffff90911617905533612c16865f52601460205260405f2090565b6001600160a01b039091165f90815260209190915260409020805463ffffffff16612c4090612ed7565b815463ffffffff191663ffffffff909116179055335f90815260046020526040902042905560075490612c7b825f52600960205260405f2090565b54612c8590612db0565b94519384933396612cba948a879260a094919796959260c0850198855260208501526040840152606083015260808201520152565b037ffc970499e1828cc7679f8c20b0ad65dd2059d573f069313e7f3354b631df4e2c91a361038991613e81565b845163f84b8daf60e01b8152600490fd5b845163aa9a98df60e01b8152600490fd5b90600163ffffffff8093160191821161201a57565b91909163ffffffff8080941691160191821161201a57565b8054600160401b81101561032857612d5391600182018155611543565b9190916122d45780518255602081015160018301556040810151600283015560608101516003830180546001600160a01b0319166001600160a01b039290921691909117905560059060a090608081015160048501550151910155565b5f1981019190821161201a57565b9190820391821161201a57565b8054600160401b81101561032857612de8916001820181556118f4565b6122d4576006612e8860e084610389955185556020810151600186015560408101516002860155612e6960038601612e48612e2c606085015160018060a01b031690565b82546001600160a01b0319166001600160a01b03909116178255565b60808301511515815460ff60a01b191690151560a01b60ff60a01b16179055565b60a0810151600486015560c08101516005860155015163ffffffff1690565b91019063ffffffff1663ffffffff19825416179055565b805490600160401b8210156103285781612ec191600161278b940181556116f2565b819391549060031b91821b915f19901b19161790565b63ffffffff80911690811461201a5760010190565b60a43561043b81610a1f565b6101043561043b81610a1f565b6101243561043b81610a1f565b612f3760a435612f2181610a1f565b825463ffffffff191663ffffffff909116178255565b612f6860c435612f4681610a1f565b825467ffffffff00000000191660209190911b67ffffffff0000000016178255565b612f9c60e435612f7781610a1f565b82546bffffffff0000000000000000191660409190911b63ffffffff60401b16178255565b61010435612fa981610a1f565b815463ffffffff60601b19811660609290921b63ffffffff60601b1691821783559061012435612fd881610a1f565b67ffffffffffffffff60601b199092161760809190911b63ffffffff60801b16179055565b90929160e082019382521515602082015260c060a43561301c81610a1f565b63ffffffff80911660408401528060c43561303681610a1f565b1660608401528060e43561304981610a1f565b166080840152806101043561305d81610a1f565b1660a08401526101243561307081610a1f565b16910152565b604080516001600160a01b039092166020830190815282820193909352815261309e8161030d565b51902090565b906040516130b18161030d565b809280549060ff82169060038210156116785790835260089190911c6001600160a01b031660208301526001015460409190910152565b815181546001600160a01b0319166001600160a01b0391909116178155610389916020810151825463ffffffff60a01b191660a09190911b63ffffffff60a01b1617825563ffffffff9060400151825463ffffffff60c01b1916911660c01b63ffffffff60c01b16179055565b613167815f52601260205260405f2090565b63ffffffff831680158015613292575b8015613288575b613276578161319461319a926131ab9454612dbe565b90611641565b505460081c6001600160a01b031690565b336001600160a01b0390911603613276576132156131d660026106bf845f52601160205260405f2090565b6131f26131e161037c565b3381529163ffffffff166020830152565b63ffffffff84166040820152613210835f52601560205260405f2090565b6130e8565b7fe05de038612e24ada42c82b9edebad8d8731534121cebe9a6f496bf5ade8c25361327161325060026106bf855f52601160205260405f2090565b6040805163ffffffff92831681529590911660208601523394918291820190565b0390a3565b60405163e18c177960e01b8152600490fd5b508082541061317e565b5060028111613177565b906040516132a98161030d565b91546001600160a01b038116835263ffffffff60a082901c8116602085015260c09190911c166040830152565b634e487b7160e01b5f52603160045260245ffd5b80548015613310575f1901906133008282611641565b6122d4576001815f809355015555565b6132d6565b63ffffffff918216908216039190821161201a57565b9061333e825f52601160205260405f2090565b90613359613354845f52601560205260405f2090565b61329c565b80519092906001600160a01b03168015908115613507575b506134dc576020600261338b602086015163ffffffff1690565b9201936133a36104d9865463ffffffff9060a01c1690565b63ffffffff80941614908115916134ee575b506134dc575f858152601560205260408120556133da855f52601260205260405f2090565b5f5b838516811061346b575050505061344f8261249461342f6134669461342a7ffaf1f6cb53e62a5e2654ee065f800c4398aae749a89869816677d9d9a63bdc22975463ffffffff9060a01c1690565b613315565b825463ffffffff60a01b191660a09190911b63ffffffff60a01b16178255565b60405163ffffffff90911681529081906020820190565b0390a2565b6001906134c36113498561349161348b6134858854612db0565b88611641565b506130a4565b61349a876132ea565b8581516134a68161166e565b6134af8161166e565b146134c9575b01516001600160a01b031690565b016133dc565b6134d760408201518d6144d5565b6134b5565b6040516363a2fc4760e01b8152600490fd5b6040015163ffffffff169050821683831614155f6133b5565b905033145f613371565b604051602081018181106001600160401b03821117610328576040525f8152905f368137565b604051906135448261032d565b606080835f81525f60208201525f60408201520152565b9081548082526020809201925f5260205f20915f905b82821061357f575050505090565b835485529384019360019384019390910190613571565b90600360606040516135a78161032d565b6135e08195805483526001810154602084015260ff600282015416151560408401526135d9604051809681930161355b565b038461035b565b0152565b909291926135f0613537565b506136106002613608845f52600660205260405f2090565b015460ff1690565b611d025761362e613629835f52600660205260405f2090565b613596565b9361364285515f52600960205260405f2090565b54156136ac5761366061365b8651606088015190613fa5565b61408b565b60208601510361369a578261367e61368c9260029461038996614589565b5f52600660205260405f2090565b01805460ff19166001179055565b6040516313b304fb60e21b8152600490fd5b604051633b98df6560e01b8152600490fd5b63ffffffff16801561201a575f190190565b93845f52600d60205260036136e88360405f206118f4565b50019081549460ff8660a01c16156137af5761378261375e7f11da8272bc7591e5eb21fcf550dc402f8b394896b67f5b7cae8894fd07c0e550976134669560ff60a01b19821690556137428a5f52601460205260405f2090565b6001600160a01b039091165f9081526020919091526040902090565b61376e63ffffffff8254166136be565b63ffffffff1663ffffffff19825416179055565b6040805194855263ffffffff95861660208601529085169084015290921660608201529081906080820190565b50505050505050565b63ffffffff916020918015613852575b5f805160206151c28339815191525460405163f77f3f1d60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af190811561384d575f91613824575090565b61043b915060203d602011613846575b61383e818361035b565b81019061466d565b503d613834565b61467c565b50606461385d6146d3565b90506137c8565b6138c69160209180156138eb575b81156138db575b5f805160206151c28339815191525460405163d99882d560e01b8152600481019290925260248201929092525f60448201819052909384926001600160a01b031691839182906064820190565b03925af190811561384d575f91613824575090565b90506138e5614687565b90613879565b506138f4614687565b613872565b6138c691602091801561396b575b811561395b575b5f805160206151c2833981519152546040516363a2db2960e01b8152600481019290925260248201929092525f60448201819052909384926001600160a01b031691839182906064820190565b9050613965614687565b9061390e565b50613974614687565b613907565b61043b30826147d4565b8054600160401b811015610328576139a091600182018155611641565b9190916122d457805160038110156116785782546020830151610100600160a81b0360089190911b1660ff929092166001600160a81b03199091161717825560400151600190910155565b906139f582612137565b613a02604051918261035b565b8281528092613a13601f1991612137565b0190602036910137565b908051825560016020613a4d63ffffffff602085015116600186019063ffffffff1663ffffffff19825416179055565b600284016040840151918251926001600160401b03841161032857602090613a7585856127bf565b01915f5260205f20905f5b848110613ab357505050505050906003613aa06060610389940151151590565b91019060ff801983541691151516179055565b835183820155928101928501613a80565b91613b0a613ada845f52601160205260405f2090565b92613aed855f52601260205260405f2090565b613af561037c565b5f8152336020820152915b6040830152613983565b600290613b8f6002840193613b52613b32613b2d875463ffffffff9060a01c1690565b612ed7565b865463ffffffff60a01b191660a09190911b63ffffffff60a01b16178655565b80546001600160a01b0316338103613d505750600101546001600160a01b03165b84546001600160a01b0319166001600160a01b03909116178455565b8254613bd99060a01c63ffffffff165b60405163ffffffff8216815286907fa521f7aa7df884ea784aec40503d53ee16522d9d75b733bd94de7d69faa7a22f90602090a28561492f565b90815115613d4957613bf3855f52600d60205260405f2090565b613c05613c008451612080565b6139eb565b92613c20613c1b875463ffffffff9060a01c1690565b6147c5565b92613c29614725565b975f5b8351811015613cb85780613c4c613c45600193876120b2565b51876118f4565b50613c748c613c5e8c8401548b614a78565b85613c6b8386548461509b565b9401549061509b565b90613c7e81613979565b50613c8882613979565b50613c9b613c9584612080565b8b6120b2565b52613cb1613cab6104f484612080565b8a6120b2565b5201613c2c565b50969195509650613271925061344f9150612494613cf67fb9f4019c5341fe3530e79a1c78a98eb48781e30ca1daf5a9a72ddfb79fe98e7595614d84565b95613d09835463ffffffff9060a01c1690565b90613d27613d1561038b565b8a815263ffffffff9093166020840152565b60408201525f6060820152613d44875f52601660205260405f2090565b613a1d565b9350505050565b9050613b73565b90613d6a825f52601160205260405f2090565b90613d9e613d80845f52601260205260405f2090565b613d8861037c565b60028152903360208301525f6040830152613983565b600290613dc16002840193613b52613b32613b2d875463ffffffff9060a01c1690565b8254613dd59060a01c63ffffffff16613b9f565b90815115613d4957613def855f52600d60205260405f2090565b613dfc613c008451612080565b92613e12613c1b875463ffffffff9060a01c1690565b92613e1b614725565b975f5b8351811015613cb85780613e37613c45600193876120b2565b50613e498c613c5e8c8401548b614a78565b90613e5381613979565b50613e5d82613979565b50613e6a613c9584612080565b52613e7a613cab6104f484612080565b5201613e1e565b91613ec2613e97845f52601160205260405f2090565b92613eaa855f52601260205260405f2090565b613eb261037c565b6001815291336020840152613b00565b600290613ee56002840193613b52613b32613b2d875463ffffffff9060a01c1690565b8254613ef99060a01c63ffffffff16613b9f565b90815115613d4957613f13855f52600d60205260405f2090565b613f20613c008451612080565b92613f36613c1b875463ffffffff9060a01c1690565b92613f3f614725565b975f5b8351811015613cb85780613f5b613c45600193876120b2565b50613f6d8c613c5e8c8401548b614a78565b90613f7781613979565b50613f8182613979565b50613f8e613c9584612080565b52613f9e613cab6104f484612080565b5201613f42565b613fba909291925f52600960205260405f2090565b82518061405257508054905b613fd2613c008361206a565b935f5b838110613fe25750505050565b6001908251155f1461403d576002613ffb825b86611543565b50805461400a613c958561206a565b528381015461401e613c956104f48661206a565b52015461403661403061053b8461206a565b896120b2565b5201613fd5565b6002613ffb61404c83866120b2565b51613ff5565b90613fc6565b9081518082526020808093019301915f5b828110614077575050505090565b835185529381019392810192600101614069565b60405161309e816140a86020820194604086526060830190614058565b30604083015203601f19810183528261035b565b9063ffffffff8091169182156140d157160690565b634e487b7160e01b5f52601260045260245ffd5b906140f8825f52601160205260405f2090565b60028101549092906001600160a01b03811633036124ff57600361412563ffffffff809360a01c16612d09565b9401549181614136818516876140bc565b166141d05761417361416933614154845f52601360205260405f2090565b9060018060a01b03165f5260205260405f2090565b5463ffffffff1690565b82808560201c16911610156141be5761419d614169839261415433915f52601460205260405f2090565b9260401c16911610156141ac57565b6040516328ccd64d60e01b8152600490fd5b60405163941d116560e01b8152600490fd5b604051632a13baf360e01b8152600490fd5b5f805160206151c28339815191525461422e92602092909161420e90610aa0906001600160a01b031681565b905f60405180968195829463196d0b9b60e01b8452339060048501614eab565b03925af190811561384d575f916142b4575b505f805160206151e28339815191525461426490610aa0906001600160a01b031681565b803b1561041c57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561384d576142a1575090565b806142ae61043b92610348565b806106ed565b6142cd915060203d6020116138465761383e818361035b565b5f614240565b63ffffffff91602091801561433f575b5f805160206151c283398151915254604051630d8c635960e21b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af190811561384d575f91613824575090565b50606461434a6146d3565b90506142e3565b63ffffffff9160209180156143bd575b5f805160206151c2833981519152546040516304559f7160e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af190811561384d575f91613824575090565b5060646143c86146d3565b9050614361565b925f93959294956143ed6143e38285614edc565b6123ae8389614edc565b92602061440063ffffffff809416614776565b91606460018060a01b035f805160206151c2833981519152541691604051998a938492637702dcff60e01b84528a600485015260248401528660448401525af195861561384d575f96614476575b509061446361446a926144709697988661509b565b9716614776565b9161509b565b91929190565b61447095965061446a929161449c6144639260203d6020116138465761383e818361035b565b97965091925061444e565b156144ae57565b6040516321c4e35760e21b8152600490fd5b610389906144ce30826147d4565b33906147d4565b906144eb90825f52600d60205260405f206118f4565b505f828152601360209081526040808320600390940180546001600160a01b03908116855294909252909120919261452e63ffffffff9361376e858254166136be565b815460ff8160a01c161561458257610389946145636145799361376e9560ff60a01b19851690555f52601460205260405f2090565b911660018060a01b03165f5260205260405f2090565b918254166136be565b5050505050565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020908060205260405f20541561465b57845f5260205260405f206040519182602083549182815201925f5260205f20915f905b828210614644575050505091816146036146089593610a8895038261035b565b614fc4565b614632577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b8354855293840193600193840193909101906145e3565b60405163d66ca67560e01b8152600490fd5b9081602091031261041c575190565b6040513d5f823e3d90fd5b5f602060018060a01b035f805160206151c28339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af190811561384d575f91613824575090565b5f805160206151c283398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af190811561384d575f91613824575090565b5f602060018060a01b035f805160206151c28339815191525416604460405180948193639cd07acb60e01b835263ffffffff6004840152600460248401525af190811561384d575f91613824575090565b60205f91604460018060a01b035f805160206151c28339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af190811561384d575f91613824575090565b63ffffffff61043b9116614776565b5f805160206151e2833981519152546001600160a01b031691823b1561041c57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561384d576148325750565b61038990610348565b90602061043b928181520190614058565b60405190604082018281106001600160401b0382111761032857604052600182526020820160203682378251156110ad57525f805160206151e2833981519152546148a190610aa0906001600160a01b031681565b803b1561041c57604051637d6e912360e11b8152915f9183918290849082906148cd906004830161483b565b03925af1801561384d576148de5750565b806142ae61038992610348565b8054908115613310575f199182019161490483836116f2565b909182549160031b1b1916905555565b90610389614928926040519384809261355b565b038361035b565b91614942835f52600f60205260405f2090565b9161496c81614959865f52600e60205260405f2090565b9063ffffffff165f5260205260405f2090565b915f5b8354811015614997578061499161498b611ce2600194886116f2565b87612e9f565b0161496f565b509150926149cb906149bd6149b886614959845f52600e60205260405f2090565b61278f565b5f52600d60205260405f2090565b925f5b835480821015614a6a576149ee6149e8611ce284886116f2565b876118f4565b50600381015460a01c60ff169081614a52575b5015614a195750614a1190612129565b935b936149ce565b614a34611ce2614a2e614a4493989498612db0565b876116f2565b614a3e87876116f2565b90612772565b614a4d846148eb565b614a13565b6006015463ffffffff8581169116101590505f614a01565b505050915061043b90614914565b908115614aec575b8015614ada575b602090606460018060a01b035f805160206151c28339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af190811561384d575f91613824575090565b506020614ae56146d3565b9050614a87565b9050614af66146d3565b90614a80565b9291614b15918452606060208501526060840190614058565b91604063124bd04b60e01b910152565b9291614b3e918452606060208501526060840190614058565b916040623c0d6760e41b910152565b9291614b66918452606060208501526060840190614058565b9160406301e1f88b60e71b910152565b5f8051602061520283398151915280545f805160206151e2833981519152549093929190614bae90610aa0906001600160a01b031681565b803b1561041c575f6040518092637d6e912360e11b8252818381614bd5896004830161483b565b03925af1801561384d57614c90575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970254614c1b90610aa0906001600160a01b031681565b90813b1561041c575f6040518093633263b83b60e01b8252818381614c44898c60048401614afc565b03925af1801561384d5761038993614c6c93614c6692614c7d575b50866150ed565b54612129565b5f8051602061520283398151915255565b806142ae614c8a92610348565b5f614c5f565b806142ae614c9d92610348565b5f614be4565b5f8051602061520283398151915280545f805160206151e2833981519152549093929190614cdb90610aa0906001600160a01b031681565b803b1561041c575f6040518092637d6e912360e11b8252818381614d02896004830161483b565b03925af1801561384d57614d71575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970254614d4890610aa0906001600160a01b031681565b90813b1561041c575f6040518093633263b83b60e01b8252818381614c44898c60048401614b25565b806142ae614d7e92610348565b5f614d11565b5f8051602061520283398151915280545f805160206151e2833981519152549093929190614dbc90610aa0906001600160a01b031681565b803b1561041c575f6040518092637d6e912360e11b8252818381614de3896004830161483b565b03925af1801561384d57614e52575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970254614e2990610aa0906001600160a01b031681565b90813b1561041c575f6040518093633263b83b60e01b8252818381614c44898c60048401614b4d565b806142ae614e5f92610348565b5f614df2565b5f5b838110614e765750505f910152565b8181015183820152602001614e67565b90602091614e9f81518092818552858086019101614e65565b601f01601f1916010190565b9392614ed790600493606093875260018060a01b03166020870152608060408701526080860190614e86565b930152565b63ffffffff916020918015614f48575b5f805160206151c283398151915254604051637210768160e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af190811561384d575f91613824575090565b506064614f536146d3565b9050614eec565b6020929190614f70849282815194859201614e65565b019081520190565b9081602091031261041c575161043b8161118a565b91614fb690614fa861043b9593606086526060860190614058565b908482036020860152614e86565b916040818403910152614e86565b91908051916020938385019384861161201a5760400180941161201a5761505f936150098694614ffb604051938492888401614f5a565b03601f19810183528261035b565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f9061504190610aa0906001600160a01b031681565b92604051968795869485936378542ead60e01b855260048501614f8d565b03925af191821561384d575f9261507557505090565b61043b9250803d10615094575b61508c818361035b565b810190614f78565b503d615082565b9060646020925f60018060a01b035f805160206151c283398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af190811561384d575f91613824575090565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020918160205260405f20546151af575f5260205260405f20908251926001600160401b03841161032857600160401b8411610328578254848455808510615189575b5060206151669101925f5260205f2090565b905f5b848110615177575050505050565b83518382015592810192600101615169565b835f528460205f2091820191015b8181106151a45750615154565b5f8155600101615197565b604051633f06d22b60e01b8152600490fdfe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a26469706673582212202c8adaf9bfa54c9edf42024d26bda820832a6b781d6c261d827208810df0c1ef64736f6c63430008180033";
+
+type GoFHEHiddenMoveFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: GoFHEHiddenMoveFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class GoFHEHiddenMoveFHE__factory extends ContractFactory {
+  constructor(...args: GoFHEHiddenMoveFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      GoFHEHiddenMoveFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): GoFHEHiddenMoveFHE__factory {
+    return super.connect(runner) as GoFHEHiddenMoveFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): GoFHEHiddenMoveFHEInterface {
+    return new Interface(_abi) as GoFHEHiddenMoveFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): GoFHEHiddenMoveFHE {
+    return new Contract(address, _abi, runner) as unknown as GoFHEHiddenMoveFHE;
+  }
+}
@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as goFheHiddenMoveSol from "./Go_FHE_HiddenMove.sol";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";